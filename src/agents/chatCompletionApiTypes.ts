@@ -431,6 +431,8 @@ export interface GetChatCompletionResponse {
   metadata: Record<string, string>;
   choices: ChatCompletionChoice[];
   response_format: ResponseFormat | null;
+  // Server extension: set when the client disconnected before the run finished
+  cancelled?: boolean;
 }
 
 // ============================================================================
@@ -560,3 +562,27 @@ export interface ChatCompletionChunk {
   /** @deprecated */
   system_fingerprint?: string;
 }
+
+// ============================================================================
+// Server Extensions
+// ============================================================================
+
+/**
+ * How server-side tool activity is reported in chat completion streams:
+ * - `markers`: human-readable `[Tool Call]` text in `delta.content`
+ * - `events`: structured `x-tool-events` SSE events, leaving the transcript clean
+ */
+export type ToolEventsMode = "markers" | "events";
+
+export interface ToolActivityEvent {
+  id: string;
+  object: "chat.completion.tool_event";
+  created: number;
+  model: string;
+  event: "tool_called" | "tool_output";
+  call_id: string;
+  name: string;
+  arguments?: string;
+  output?: string;
+  output_truncated?: boolean;
+}
@@ -0,0 +1,180 @@
+import { normalizePath } from "obsidian";
+import ObsidianAgentsServer from "~/index";
+import {
+  ChatCompletionMessage,
+  ChatCompletionMessageItem,
+  CreateChatCompletionBody,
+  CreateChatCompletionResponse,
+  DeleteChatCompletionResponse,
+  GetChatCompletionResponse,
+  GetChatMessagesQueryParams,
+  GetChatMessagesResponse,
+  ImageContentPart,
+  ListChatCompletionsQueryParams,
+  ListChatCompletionsResponse,
+  TextContentPart,
+} from "~/agents/chatCompletionApiTypes";
+
+interface StoredChatCompletion {
+  // Agent that created the completion, only API keys allowed to use the agent can access it
+  agentID?: string
+  completion: GetChatCompletionResponse
+  messages: ChatCompletionMessageItem[]
+}
+
+const STORE_FILE = "chat-completions.json"
+// The file is rewritten on every stored request, so the oldest completions are dropped beyond this
+const MAX_STORED_COMPLETIONS = 500
+const DEFAULT_LIST_LIMIT = 20
+
+function messageContentText(content: ChatCompletionMessage["content"]): string | null {
+  if (content === undefined || content === null) return null
+  if (typeof content === "string") return content
+  return content.map(part => part.type === "text" ? part.text : "").join("\n")
+}
+
+/**
+ * Convert the request messages of a completion into the item shape returned
+ * by `GET /v1/chat/completions/{completion_id}/messages`.
+ */
+function toMessageItems(completionID: string, messages: ChatCompletionMessage[]): ChatCompletionMessageItem[] {
+  return messages.map((msg, i) => {
+    const item: ChatCompletionMessageItem = {
+      id: `${completionID}-${i}`,
+      role: msg.role,
+      content: messageContentText(msg.content),
+    }
+    if ("name" in msg && msg.name) item.name = msg.name
+    if (msg.role === "user" && Array.isArray(msg.content)) {
+      item.content_parts = msg.content.filter((part): part is TextContentPart | ImageContentPart => part.type === "text" || part.type === "image_url")
+    }
+    if (msg.role === "assistant") {
+      item.refusal = msg.refusal ?? null
+      if (msg.tool_calls) item.tool_calls = msg.tool_calls
+    }
+    return item
+  })
+}
+
+function paginate<T extends { id: string }>(items: T[], { after, limit = DEFAULT_LIST_LIMIT, order = "asc" }: { after?: string, limit?: number, order?: "asc" | "desc" }) {
+  const ordered = order === "desc" ? [...items].reverse() : items
+  const start = after ? ordered.findIndex(item => item.id === after) + 1 : 0
+  const page = ordered.slice(start, start + limit)
+  return {
+    object: "list" as const,
+    data: page,
+    first_id: page[0]?.id ?? "",
+    last_id: page[page.length - 1]?.id ?? "",
+    has_more: start + limit < ordered.length
+  }
+}
+
+/**
+ * Persists completions created with `store: true` to a JSON file in the plugin folder
+ * so they can be served back through the stored chat completions routes.
+ */
+export class ChatCompletionStore {
+  private plugin: ObsidianAgentsServer
+  private completions: StoredChatCompletion[] = []
+
+  constructor(plugin: ObsidianAgentsServer) {
+    this.plugin = plugin
+  }
+
+  private get path() {
+    return normalizePath(`${this.plugin.manifest.dir}/${STORE_FILE}`)
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter
+    try {
+      if (await adapter.exists(this.path)) {
+        this.completions = JSON.parse(await adapter.read(this.path)) as StoredChatCompletion[]
+      }
+    } catch (err) {
+      console.error('[ChatCompletionStore] Failed to load stored completions: ', err)
+      this.completions = []
+    }
+  }
+
+  /**
+   * Find a stored completion, as long as it was created by one of the given agents.
+   * Without agent ids (no API key) every completion is accessible.
+   */
+  private find(id: string, agentIDs?: string[]): StoredChatCompletion | undefined {
+    return this.completions.find(c => c.completion.id === id && this.isAccessible(c, agentIDs))
+  }
+
+  private isAccessible(stored: StoredChatCompletion, agentIDs?: string[]) {
+    return !agentIDs || (stored.agentID !== undefined && agentIDs.includes(stored.agentID))
+  }
+
+  private async save(): Promise<void> {
+    await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.completions))
+  }
+
+  async add(agentID: string, body: CreateChatCompletionBody, response: CreateChatCompletionResponse, cancelled = false): Promise<GetChatCompletionResponse> {
+    const completion: GetChatCompletionResponse = {
+      id: response.id,
+      object: "chat.completion",
+      created: response.created,
+      model: response.model,
+      request_id: response.id,
+      tool_choice: body.tool_choice ?? null,
+      usage: response.usage,
+      seed: body.seed ?? null,
+      top_p: body.top_p ?? 1,
+      temperature: body.temperature ?? 1,
+      presence_penalty: body.presence_penalty ?? 0,
+      frequency_penalty: body.frequency_penalty ?? 0,
+      system_fingerprint: response.system_fingerprint ?? "",
+      input_user: body.user ?? null,
+      service_tier: response.service_tier ?? "default",
+      tools: body.tools ?? null,
+      metadata: body.metadata ?? {},
+      choices: response.choices,
+      response_format: body.response_format ?? null,
+      ...(cancelled ? { cancelled } : {}),
+    }
+    this.completions.push({ agentID, completion, messages: toMessageItems(response.id, body.messages) })
+    this.completions = this.completions.slice(-MAX_STORED_COMPLETIONS)
+    await this.save()
+    return completion
+  }
+
+  get(id: string, agentIDs?: string[]): GetChatCompletionResponse | undefined {
+    return this.find(id, agentIDs)?.completion
+  }
+
+  list({ metadata, model, ...pagination }: ListChatCompletionsQueryParams, agentIDs?: string[]): ListChatCompletionsResponse {
+    const completions = this.completions
+      .filter(c => this.isAccessible(c, agentIDs))
+      .map(c => c.completion)
+      .filter(c => !model || c.model === model)
+      .filter(c => !metadata || Object.entries(metadata).every(([key, value]) => c.metadata[key] === value))
+    return paginate(completions, pagination)
+  }
+
+  getMessages(id: string, params: GetChatMessagesQueryParams, agentIDs?: string[]): GetChatMessagesResponse | undefined {
+    const stored = this.find(id, agentIDs)
+    if (!stored) return undefined
+    return paginate(stored.messages, params)
+  }
+
+  async update(id: string, metadata: Record<string, string>, agentIDs?: string[]): Promise<GetChatCompletionResponse | undefined> {
+    const stored = this.find(id, agentIDs)
+    if (!stored) return undefined
+    stored.completion.metadata = metadata
+    await this.save()
+    return stored.completion
+  }
+
+  async delete(id: string, agentIDs?: string[]): Promise<DeleteChatCompletionResponse> {
+    const stored = this.find(id, agentIDs)
+    if (stored) {
+      this.completions = this.completions.filter(c => c !== stored)
+      await this.save()
+    }
+    return { object: "chat.completion.deleted", id, deleted: stored !== undefined }
+  }
+}
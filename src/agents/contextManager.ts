@@ -0,0 +1,238 @@
+import { type Agent, type AgentInputItem } from "@openai/agents";
+import { countTokens, decode, encode } from "gpt-tokenizer";
+import ObsidianAgentsServer from "~/index";
+import { AgentSettings } from "~/agents/types";
+
+// Rough cost of an attached image or file, the real cost depends on the provider and the content
+const ATTACHMENT_TOKENS = 1000
+// Role markers and separators the chat template adds around every item
+const ITEM_OVERHEAD_TOKENS = 4
+// Share of the context window kept free for the response when the agent has no max tokens set
+const DEFAULT_OUTPUT_RESERVE = 0.1
+// Tool outputs are cut down to this many tokens by the truncate strategy
+const TRUNCATED_TOOL_OUTPUT_TOKENS = 500
+
+// Run options of the request whose input is fitted, the pruning agent runs with the same permissions
+export interface FitInputOptions {
+  readOnly?: boolean
+  signal?: AbortSignal
+}
+
+export class ContextLengthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ContextLengthError"
+  }
+}
+
+function isInstructionMessage(item: AgentInputItem) {
+  return "role" in item && item.role === "system"
+}
+
+function isUserMessage(item: AgentInputItem) {
+  return "role" in item && item.role === "user"
+}
+
+function contentTokens(content: unknown): number {
+  if (typeof content === "string") return countTokens(content)
+  if (!Array.isArray(content)) return 0
+  return content.reduce((total: number, part: any) => {
+    if (typeof part?.text === "string") return total + countTokens(part.text)
+    if (typeof part?.refusal === "string") return total + countTokens(part.refusal)
+    if (part?.type === "input_image" || part?.type === "input_file") return total + ATTACHMENT_TOKENS
+    return total
+  }, 0)
+}
+
+function itemTokens(item: AgentInputItem): number {
+  let tokens: number
+  if ("role" in item) {
+    tokens = contentTokens(item.content)
+  } else if (item.type === "function_call") {
+    tokens = countTokens(`${item.name}${item.arguments}`)
+  } else if (item.type === "function_call_result") {
+    // Outputs with several parts (e.g. text and images) are stored as an array of input content
+    tokens = contentTokens(typeof item.output === "string" || Array.isArray(item.output) ? item.output : [item.output])
+  } else if (item.type === "reasoning") {
+    tokens = contentTokens(item.content)
+  } else {
+    tokens = countTokens(JSON.stringify(item))
+  }
+  return tokens + ITEM_OVERHEAD_TOKENS
+}
+
+function toolOutputText(item: AgentInputItem): string | undefined {
+  if (item.type !== "function_call_result") return undefined
+  const output = item.output
+  if (typeof output === "string") return output
+  if (!Array.isArray(output) && output.type === "text") return output.text
+  return undefined
+}
+
+function transcriptLine(item: AgentInputItem): string {
+  if ("role" in item) {
+    const text = typeof item.content === "string"
+      ? item.content
+      : item.content.map(p => "text" in p ? p.text : "refusal" in p ? p.refusal : `[${p.type}]`).join("\n")
+    return `${item.role}: ${text}`
+  }
+  if (item.type === "function_call") return `tool call ${item.name}: ${item.arguments}`
+  if (item.type === "function_call_result") return `tool result ${item.name}: ${toolOutputText(item) ?? "[non-text output]"}`
+  return ""
+}
+
+/**
+ * Keeps agent input within the context window of the agent's model. The input is estimated with
+ * the o200k tokenizer, which is close enough for other model families to decide when to compact.
+ */
+export class ContextManager {
+  private plugin: ObsidianAgentsServer
+
+  constructor(plugin: ObsidianAgentsServer) {
+    this.plugin = plugin
+  }
+
+  /**
+   * Smallest context limit across the agent's model chain, since a fallback model may serve the run.
+   * Models whose limit can't be looked up are left out.
+   */
+  async getContextLimit(settings: AgentSettings): Promise<number | undefined> {
+    if (settings.context?.contextLimit) return settings.context.contextLimit
+    const chain = [{ modelProvider: settings.modelProvider, model: settings.model }, ...settings.fallbackModels ?? []]
+    const limits = await Promise.all(chain.map(({ modelProvider, model }) => this.getModelContextLimit(modelProvider, model)))
+    const known = limits.filter((limit): limit is number => limit !== undefined)
+    return known.length > 0 ? Math.min(...known) : undefined
+  }
+
+  private async getModelContextLimit(providerID: string, model: string): Promise<number | undefined> {
+    if (!model) return undefined
+    const provider = this.plugin.modelProviders.find(p => p.id === providerID)
+    try {
+      return await provider?.getContextLimit(model)
+    } catch (err) {
+      console.warn(`[Context] Failed to look up the context limit of ${model}:`, err)
+      return undefined
+    }
+  }
+
+  // Instructions and tool definitions are sent with every model call
+  private fixedTokens(instance: Agent): number {
+    const instructions = typeof instance.instructions === "string" ? countTokens(instance.instructions) : 0
+    return instance.tools.reduce((total, t) => {
+      const definition = t.type === "function" ? `${t.name}${t.description}${JSON.stringify(t.parameters)}` : t.name
+      return total + countTokens(definition)
+    }, instructions)
+  }
+
+  estimateTokens(instance: Agent, items: AgentInputItem[]): number {
+    return items.reduce((total, item) => total + itemTokens(item), this.fixedTokens(instance))
+  }
+
+  /**
+   * Estimate the input of a run and compact it with the agent's strategy when it doesn't fit.
+   * Throws a ContextLengthError when the input is still too large afterwards.
+   */
+  async fitInput(agent: { settings: AgentSettings, instance: Agent }, items: AgentInputItem[], options: FitInputOptions = {}): Promise<AgentInputItem[]> {
+    const limit = await this.getContextLimit(agent.settings)
+    if (!limit) return items
+
+    const maxTokens = agent.instance.modelSettings.maxTokens
+    const budget = limit - (maxTokens ?? Math.floor(limit * DEFAULT_OUTPUT_RESERVE))
+    const fits = (input: AgentInputItem[]) => this.estimateTokens(agent.instance, input) <= budget
+    if (fits(items)) return items
+
+    const strategy = agent.settings.context?.strategy ?? "none"
+    console.log(`[Context] Input of agent '${agent.settings.name}' is ~${this.estimateTokens(agent.instance, items)} tokens, over its budget of ${budget}. Applying strategy: ${strategy}`)
+
+    let compacted = items
+    switch (strategy) {
+      case "drop_oldest":
+        compacted = this.dropOldestTurns(items, fits)
+        break;
+      case "truncate_tool_outputs":
+        compacted = this.truncateToolOutputs(items, fits)
+        break;
+      case "summarize":
+        compacted = await this.summarize(agent.settings, items, options)
+        break;
+      default:
+        break;
+    }
+
+    const tokens = this.estimateTokens(agent.instance, compacted)
+    if (tokens > budget) {
+      throw new ContextLengthError(`Input of ~${tokens} tokens exceeds the ${budget} token budget of agent '${agent.settings.name}' (context limit ${limit}). Shorten the conversation or configure a context strategy for the agent.`)
+    }
+    return compacted
+  }
+
+  private lastUserIndex(items: AgentInputItem[]) {
+    for (let i = items.length - 1; i >= 0; i--) {
+      if (isUserMessage(items[i])) return i
+    }
+    return -1
+  }
+
+  /**
+   * Drop whole turns from the start of the conversation, keeping system messages and the latest user turn.
+   */
+  private dropOldestTurns(items: AgentInputItem[], fits: (input: AgentInputItem[]) => boolean): AgentInputItem[] {
+    let compacted = items
+    while (!fits(compacted)) {
+      const start = compacted.findIndex(item => !isInstructionMessage(item))
+      const lastUser = this.lastUserIndex(compacted)
+      if (start === -1 || start >= lastUser) break
+      const nextUser = compacted.findIndex((item, i) => i > start && isUserMessage(item))
+      compacted = [...compacted.slice(0, start), ...compacted.slice(nextUser)]
+    }
+    return compacted
+  }
+
+  /**
+   * Cut tool outputs down to their first tokens, oldest first, until the input fits.
+   */
+  private truncateToolOutputs(items: AgentInputItem[], fits: (input: AgentInputItem[]) => boolean): AgentInputItem[] {
+    const compacted = [...items]
+    for (const [i, item] of compacted.entries()) {
+      if (fits(compacted)) break
+      const text = toolOutputText(item)
+      if (text === undefined) continue
+      const tokens = encode(text)
+      if (tokens.length <= TRUNCATED_TOOL_OUTPUT_TOKENS) continue
+      const truncated = `${decode(tokens.slice(0, TRUNCATED_TOOL_OUTPUT_TOKENS))}\n[Output truncated from ${tokens.length} tokens to fit the context window]`
+      compacted[i] = { ...item, output: truncated } as AgentInputItem
+    }
+    return compacted
+  }
+
+  /**
+   * Replace everything before the latest user turn with a summary written by the agent's pruning agent.
+   */
+  private async summarize(settings: AgentSettings, items: AgentInputItem[], options: FitInputOptions): Promise<AgentInputItem[]> {
+    const pruningAgentName = Object.values(this.plugin.agents).find(a => a.settings.id === settings.context?.pruningAgentID)?.instance.name
+    const pruningAgent = pruningAgentName ? this.plugin.findAgent(pruningAgentName) : undefined
+    if (!pruningAgent) {
+      console.warn(`[Context] Agent '${settings.name}' has no pruning agent configured, can't summarize its history`)
+      return items
+    }
+
+    const instructionMessages = items.filter(isInstructionMessage)
+    const conversation = items.filter(item => !isInstructionMessage(item))
+    const lastUser = this.lastUserIndex(conversation)
+    if (lastUser <= 0) return items
+
+    const transcript = conversation.slice(0, lastUser).map(transcriptLine).filter(line => line !== "").join("\n\n")
+    const result = await this.plugin.runner.run(
+      pruningAgent.instance,
+      `Summarize the following conversation so it can continue without the full history. Keep facts, decisions, open questions and tool results that may still matter.\n\n${transcript}`,
+      { signal: options.signal, context: { agentSettings: pruningAgent.settings, readOnly: options.readOnly, signal: options.signal } }
+    )
+    await this.plugin.usageStore.record(pruningAgent.settings.id, result.state._context.usage)
+    console.log(`[Context] Summarized ${lastUser} items of agent '${settings.name}' with pruning agent '${pruningAgent.settings.name}'`)
+    return [
+      ...instructionMessages,
+      { role: "system", content: `Summary of the earlier conversation:\n${result.finalOutput}` },
+      ...conversation.slice(lastUser)
+    ]
+  }
+}
@@ -0,0 +1,28 @@
+// OpenAI Embeddings API Types
+// Documentation: https://platform.openai.com/docs/api-reference/embeddings
+
+export interface CreateEmbeddingBody {
+  // Text or array of texts, token arrays are not supported
+  input: string | string[] | number[] | number[][];
+  model: string;
+  encoding_format?: "float" | "base64";
+  dimensions?: number;
+  user?: string;
+}
+
+export interface Embedding {
+  object: "embedding";
+  index: number;
+  // Base64 encoded little-endian float32 values when `encoding_format` is "base64"
+  embedding: number[] | string;
+}
+
+export interface CreateEmbeddingResponse {
+  object: "list";
+  data: Embedding[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
@@ -0,0 +1,103 @@
+import { AgentInputItem } from "@openai/agents";
+import { normalizePath } from "obsidian";
+import ObsidianAgentsServer from "~/index";
+import { ResponseObject } from "~/agents/responsesApiTypes";
+
+interface StoredResponse {
+  // Agent that created the response, only API keys allowed to use the agent can access or continue it
+  agentID?: string
+  response: ResponseObject
+  // Conversation items this response added on top of its previous response's history
+  items: AgentInputItem[]
+}
+
+const STORE_FILE = "responses.json"
+// The file is rewritten on every stored response, so the oldest responses are dropped beyond this
+const MAX_STORED_RESPONSES = 500
+
+/**
+ * Persists Responses API runs to a JSON file in the plugin folder so they can be fetched
+ * by id and continued through `previous_response_id` without the client resending history.
+ */
+export class ResponseStore {
+  private plugin: ObsidianAgentsServer
+  private responses: StoredResponse[] = []
+
+  constructor(plugin: ObsidianAgentsServer) {
+    this.plugin = plugin
+  }
+
+  private get path() {
+    return normalizePath(`${this.plugin.manifest.dir}/${STORE_FILE}`)
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter
+    try {
+      if (await adapter.exists(this.path)) {
+        this.responses = JSON.parse(await adapter.read(this.path)) as StoredResponse[]
+      }
+    } catch (err) {
+      console.error('[ResponseStore] Failed to load stored responses: ', err)
+      this.responses = []
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.responses))
+  }
+
+  /**
+   * Store a response along with the full run history, keeping only the items
+   * that are not already part of the previous response's history.
+   */
+  async add(agentID: string, response: ResponseObject, history: AgentInputItem[]): Promise<void> {
+    const previousHistory = response.previous_response_id ? this.getHistory(response.previous_response_id) ?? [] : []
+    this.responses.push({ agentID, response, items: history.slice(previousHistory.length) })
+    this.prune()
+    await this.save()
+  }
+
+  /**
+   * Drop the oldest responses beyond the limit. Responses continuing a dropped one take over its items,
+   * so their history stays complete while the dropped id can no longer be continued.
+   */
+  private prune() {
+    while (this.responses.length > MAX_STORED_RESPONSES) {
+      const dropped = this.responses.shift()!
+      for (const stored of this.responses) {
+        if (stored.response.previous_response_id === dropped.response.id) {
+          stored.items = [...dropped.items, ...stored.items]
+        }
+      }
+    }
+  }
+
+  /**
+   * Find a stored response, as long as it was created by one of the given agents.
+   * Without agent ids (no API key) every response is accessible.
+   */
+  private find(id: string, agentIDs?: string[]): StoredResponse | undefined {
+    return this.responses.find(r => r.response.id === id && (!agentIDs || (r.agentID !== undefined && agentIDs.includes(r.agentID))))
+  }
+
+  get(id: string, agentIDs?: string[]): ResponseObject | undefined {
+    return this.find(id, agentIDs)?.response
+  }
+
+  /**
+   * Rebuild the conversation history of a response by walking its `previous_response_id` chain.
+   * Only the requested response is checked against the agent ids, the responses before it were checked when it was created.
+   */
+  getHistory(id: string, agentIDs?: string[]): AgentInputItem[] | undefined {
+    const chain: StoredResponse[] = []
+    let stored = this.find(id, agentIDs)
+    if (!stored) return undefined
+    while (stored) {
+      chain.unshift(stored)
+      const previousID: string | null = stored.response.previous_response_id
+      stored = previousID ? this.responses.find(r => r.response.id === previousID) : undefined
+    }
+    return chain.flatMap(r => r.items)
+  }
+}
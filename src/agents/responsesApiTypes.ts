@@ -0,0 +1,196 @@
+// OpenAI Responses API Types
+// Documentation: https://platform.openai.com/docs/api-reference/responses
+
+import { Annotation, ToolChoice, Tool } from "~/agents/chatCompletionApiTypes";
+
+// ============================================================================
+// Common/Shared Types
+// ============================================================================
+
+// Content Part Types
+export interface ResponseInputText {
+  type: "input_text";
+  text: string;
+}
+
+export interface ResponseInputImage {
+  type: "input_image";
+  image_url?: string;
+  file_id?: string;
+  detail?: "auto" | "low" | "high";
+}
+
+export interface ResponseInputFile {
+  type: "input_file";
+  file_data?: string;
+  file_id?: string;
+  file_url?: string;
+  filename?: string;
+}
+
+export interface ResponseOutputText {
+  type: "output_text";
+  text: string;
+  annotations: Annotation[];
+}
+
+export interface ResponseRefusal {
+  type: "refusal";
+  refusal: string;
+}
+
+export type ResponseInputContent = ResponseInputText | ResponseInputImage | ResponseInputFile;
+
+export type ResponseOutputContent = ResponseOutputText | ResponseRefusal;
+
+// Item Types
+export interface ResponseInputMessage {
+  id?: string;
+  type?: "message";
+  role: "user" | "system" | "developer" | "assistant";
+  content: string | (ResponseInputContent | ResponseOutputContent)[];
+  status?: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponseOutputMessage {
+  id: string;
+  type: "message";
+  role: "assistant";
+  content: ResponseOutputContent[];
+  status: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponseFunctionCall {
+  id?: string;
+  type: "function_call";
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponseFunctionCallOutput {
+  id?: string;
+  type: "function_call_output";
+  call_id: string;
+  output: string;
+}
+
+export type ResponseInputItem =
+  | ResponseInputMessage
+  | ResponseFunctionCall
+  | ResponseFunctionCallOutput;
+
+export type ResponseOutputItem = ResponseOutputMessage | ResponseFunctionCall;
+
+// Usage Types
+export interface ResponseUsage {
+  input_tokens: number;
+  input_tokens_details: {
+    cached_tokens: number;
+  };
+  output_tokens: number;
+  output_tokens_details: {
+    reasoning_tokens: number;
+  };
+  total_tokens: number;
+}
+
+export interface ResponseError {
+  code: string;
+  message: string;
+}
+
+// ============================================================================
+// POST /v1/responses - Create Response
+// ============================================================================
+
+export interface CreateResponseBody {
+  model: string;
+  input: string | ResponseInputItem[];
+  instructions?: string | null;
+  max_output_tokens?: number | null;
+  metadata?: Record<string, string>;
+  parallel_tool_calls?: boolean;
+  previous_response_id?: string | null;
+  store?: boolean | null;
+  stream?: boolean | null;
+  temperature?: number | null;
+  tool_choice?: ToolChoice;
+  tools?: Tool[];
+  top_p?: number | null;
+  user?: string;
+}
+
+export interface ResponseObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "completed" | "failed" | "in_progress" | "cancelled" | "incomplete";
+  model: string;
+  output: ResponseOutputItem[];
+  output_text: string;
+  previous_response_id: string | null;
+  instructions: string | null;
+  metadata: Record<string, string>;
+  usage: ResponseUsage | null;
+  error: ResponseError | null;
+  incomplete_details: { reason: string } | null;
+  parallel_tool_calls: boolean;
+  temperature: number | null;
+  top_p: number | null;
+  tool_choice: ToolChoice;
+  tools: Tool[];
+  store: boolean;
+}
+
+// ============================================================================
+// GET /v1/responses/{response_id} - Get Response
+// ============================================================================
+
+export interface GetResponsePathParams {
+  response_id: string;
+}
+
+export type GetResponseResponse = ResponseObject;
+
+// ============================================================================
+// Streaming Types (for stream: true)
+// ============================================================================
+
+export type ResponseStreamEvent =
+  | {
+    type: "response.created" | "response.in_progress" | "response.completed" | "response.failed";
+    sequence_number: number;
+    response: ResponseObject;
+  }
+  | {
+    type: "response.output_item.added" | "response.output_item.done";
+    sequence_number: number;
+    output_index: number;
+    item: ResponseOutputItem;
+  }
+  | {
+    type: "response.content_part.added" | "response.content_part.done";
+    sequence_number: number;
+    item_id: string;
+    output_index: number;
+    content_index: number;
+    part: ResponseOutputContent;
+  }
+  | {
+    type: "response.output_text.delta";
+    sequence_number: number;
+    item_id: string;
+    output_index: number;
+    content_index: number;
+    delta: string;
+  }
+  | {
+    type: "response.output_text.done";
+    sequence_number: number;
+    item_id: string;
+    output_index: number;
+    content_index: number;
+    text: string;
+  };
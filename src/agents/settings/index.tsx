@@ -1,40 +1,73 @@
 import { Button } from "~/components/ui/button";
 import ObsidianAgentsServer from "~/index";
 import { Activity, useEffect, useState } from "react";
-import { Loader2Icon, Plus, Trash } from "lucide-react";
-import { MODEL_PROVIDERS, ModelProviderID, ModelProviderLabel } from "~/models/providers/constants";
+import { Loader2Icon, Plus, RefreshCw, Trash } from "lucide-react";
 import { SelectGroup, SelectItem, SelectLabel } from "~/components/ui/select";
 import { useAppForm } from "~/components/form"
 import { nanoid } from "nanoid";
 import { TOOL_TYPES } from "~/tools/types";
 import { VAULT_TOOLS, VaultToolsID } from "~/tools/vault";
 import { MultiSelect, MultiSelectContent, MultiSelectGroup, MultiSelectItem, MultiSelectTrigger, MultiSelectValue } from "~/components/ui/multi-select";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Label } from "~/components/ui/label";
+import { Input } from "~/components/ui/input";
 import { Checkbox } from "~/components/ui/checkbox";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "~/components/ui/accordion";
+import { useModelProviders } from "~/models/useModelProviders";
+import { LMStudio } from "~/models/providers/lmstudio";
+import { AGENTS_BUILT_EVENT } from "~/agents/types";
+import { AGENT_USAGE_CHANGED_EVENT } from "~/agents/usageStore";
+import { MCP_SERVERS_CHANGED_EVENT } from "~/mcp";
+import { Badge } from "~/components/ui/badge";
 
 export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServer }) {
-  const [modelsByProvider, setModelsByProvider] = useState<{ id: ModelProviderID, models: { id: string, provider: ModelProviderID }[] }[]>([])
+  const modelProviders = useModelProviders(plugin)
+  const modelsByProvider = modelProviders.map(p => ({
+    id: p.id,
+    label: p.label,
+    models: Array.from(new Set(p.models)).map(model => ({ id: model, provider: p.id, providerLabel: p.label, loaded: p instanceof LMStudio && p.loadedModels.includes(model) }))
+  }))
+  const [refreshingModels, setRefreshingModels] = useState(false)
+  // Tool name conflicts are found when the agents are built after saving
+  const [, setBuildCount] = useState(0)
+  useEffect(() => {
+    const ref = plugin.events.on(AGENTS_BUILT_EVENT, () => setBuildCount(count => count + 1))
+    return () => plugin.events.offref(ref)
+  }, [plugin])
+  // Servers reconnecting or announcing new tools make the listed tools stale
+  const queryClient = useQueryClient()
+  useEffect(() => {
+    const ref = plugin.events.on(MCP_SERVERS_CHANGED_EVENT, () => queryClient.invalidateQueries({ queryKey: ["mcp-servers-tools"] }))
+    return () => plugin.events.offref(ref)
+  }, [plugin, queryClient])
   const vaultToolsArray = Object.values(VAULT_TOOLS).map(t => t.id)
   const mcpServers = Array.from(plugin.mcpManager.servers.values())
   const { data: mcpServerTools, isPending: pendingServerTools } = useQuery({
     queryKey: ["mcp-servers-tools"],
     queryFn: async () => {
       const st = []
-      // Only query connected servers to avoid hanging offline
-      const connectedServers = mcpServers.filter(s => s.status === 'connected')
-
-      for (const server of connectedServers) {
-        try {
-          const tools = await server.server.listTools()
-          st.push({
-            serverID: server.id,
-            tools
-          })
-        } catch (err) {
+      for (const server of mcpServers) {
+        // Only query connected servers to avoid hanging offline
+        if (server.status !== 'connected') continue
+        // Listed separately so a server failing on resources or prompts still shows its tools
+        const tools = await server.server.listTools().catch((err) => {
           console.warn(`[Settings] Failed to list tools for ${server.id}:`, err)
-        }
+          return []
+        })
+        const resources = await server.server.listResources().catch((err) => {
+          console.warn(`[Settings] Failed to list resources for ${server.id}:`, err)
+          return []
+        })
+        const prompts = await server.server.listPrompts().catch((err) => {
+          console.warn(`[Settings] Failed to list prompts for ${server.id}:`, err)
+          return []
+        })
+        st.push({
+          serverID: server.id,
+          tools,
+          resources,
+          prompts
+        })
       }
       return st
     },
@@ -43,23 +76,6 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
     staleTime: 30000, // Cache for 30 seconds
   })
 
-  useEffect(() => {
-    const allModelsByProvider: { id: ModelProviderID, models: { id: string, provider: ModelProviderID, providerLabel: ModelProviderLabel }[] }[] = []
-    plugin.modelProviders.forEach(p => {
-      const providerModels: { id: string, provider: ModelProviderID, providerLabel: ModelProviderLabel }[] = []
-      p.models.forEach(model => {
-        if (!providerModels.find(m => m.id === model)) {
-          providerModels.push({ id: model, provider: p.id, providerLabel: MODEL_PROVIDERS[p.id].label })
-        }
-      })
-      allModelsByProvider.push({
-        id: p.id,
-        models: providerModels
-      })
-    })
-    setModelsByProvider(allModelsByProvider)
-  }, [plugin.modelProviders])
-
   const form = useAppForm({
     defaultValues: {
       agents: plugin.settings.agents,
@@ -72,18 +88,10 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
     }
   })
 
-  function reloadModels() {
-    const allModels: { id: string, provider: ModelProviderID }[] = []
-    plugin.modelProviders.forEach((provider) => {
-      provider.getModels().then(models => {
-        models.forEach(model => {
-          if (!allModels.find(m => m.id === model)) {
-            allModels.push({ id: model, provider: provider.id })
-          }
-        })
-      })
-    })
-    console.log('allModels: ', allModels)
+  async function reloadModels() {
+    setRefreshingModels(true)
+    await plugin.refreshModelProviders()
+    setRefreshingModels(false)
   }
 
   return (
@@ -113,7 +121,12 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
             }}>
               {field.state.value?.map((agent, i) => (
                 <AccordionItem value={agent.id} key={`agent-${i}`}>
-                  <AccordionTrigger className="px-4">{agent.name !== "" ? agent.name : `Agent #${i + 1}`}</AccordionTrigger>
+                  <AccordionTrigger className="px-4">
+                    <span className="flex gap-2 items-center">
+                      {agent.name !== "" ? agent.name : `Agent #${i + 1}`}
+                      {agent.mcpTools.some(t => plugin.mcpManager.getToolChanges(t.serverID)) && <Badge variant="outline">MCP tools changed</Badge>}
+                    </span>
+                  </AccordionTrigger>
                   <AccordionContent className="relative py-2 flex flex-col gap-2">
                     {/* <h2>{agent.name !== "" ? agent.name : `Agent #${i + 1}`}</h2> */}
                     <Trash
@@ -129,37 +142,260 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
                         {(subField) => <subField.CheckboxField label="Enabled" orientation="horizontal" />}
                       </form.AppField>
                     </div>
+                    <AgentUsageSummary plugin={plugin} agentID={agent.id} />
                     <form.AppField name={`agents[${i}].name`}>
                       {(subField) => <subField.TextField label="Name" />}
                     </form.AppField>
                     <form.AppField name={`agents[${i}].instructions`}>
                       {(subField) => <subField.TextareaField label="Instructions" />}
                     </form.AppField>
-                    <form.AppField name={`agents[${i}].model`}>
+                    <form.AppField name={`agents[${i}].modelProvider`}>
                       {(subField) => (
-                        <subField.SelectField label="Model" placeholder="Select Model" onValueChange={(value) => {
-                          subField.handleChange(value)
-                          modelsByProvider.forEach(mp => {
-                            const model = mp.models.find(m => m.id === value)
-                            if (model) {
-                              if (subField.state.value !== value) {
-                                form.setFieldValue("restartServer", true)
-                              }
-                              form.setFieldValue(`agents[${i}].modelProvider`, mp.id)
-                            }
-                          })
+                        <subField.SelectField label="Model Provider" placeholder="Any Provider" onValueChange={(value) => {
+                          if (subField.state.value !== value) {
+                            form.setFieldValue("restartServer", true)
+                          }
                         }}>
-                          {modelsByProvider.map((provider, j) => (
-                            <SelectGroup key={`${j}-provider-${provider.id}-models`}>
-                              <SelectLabel className="text-center">{MODEL_PROVIDERS[provider.id].label}</SelectLabel>
-                              {provider.models.sort((m1, m2) => m1.id < m2.id ? 1 : -1).map((model, k) => (
-                                <SelectItem key={`provider-${provider.id}-model-${model.id}-${k}`} value={model.id}>{model.id}</SelectItem>
+                          <SelectGroup>
+                            {modelsByProvider.map((provider) => (
+                              <SelectItem key={`agent-${agent.id}-provider-${provider.id}`} value={provider.id}>{provider.label}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </subField.SelectField>
+                      )}
+                    </form.AppField>
+                    <form.Subscribe
+                      selector={(state) => state.values.agents[i].modelProvider}
+                    >
+                      {(modelProvider) => (
+                        <form.AppField name={`agents[${i}].model`}>
+                          {(subField) => (
+                            <subField.SelectField label="Model" placeholder="Select Model" onValueChange={(value) => {
+                              form.setFieldValue("restartServer", true)
+                              // Models can be served by several provider entries, keep the selected one when it has the model
+                              if (modelsByProvider.find(mp => mp.id === modelProvider)?.models.some(m => m.id === value)) return
+                              const provider = modelsByProvider.find(mp => mp.models.some(m => m.id === value))
+                              if (provider) {
+                                form.setFieldValue(`agents[${i}].modelProvider`, provider.id)
+                              }
+                            }}>
+                              {modelsByProvider.filter(provider => !modelProvider || provider.id === modelProvider).map((provider, j) => (
+                                <SelectGroup key={`${j}-provider-${provider.id}-models`}>
+                                  <SelectLabel className="text-center">{provider.label}</SelectLabel>
+                                  {provider.models.sort((m1, m2) => m1.id < m2.id ? 1 : -1).map((model, k) => (
+                                    <SelectItem key={`provider-${provider.id}-model-${model.id}-${k}`} value={model.id}>{model.id}{model.loaded && " (loaded)"}</SelectItem>
+                                  ))}
+                                </SelectGroup>
                               ))}
-                            </SelectGroup>
-                          ))}
+                            </subField.SelectField>
+                          )}
+                        </form.AppField>
+                      )}
+                    </form.Subscribe>
+                    <form.Subscribe
+                      selector={(state) => state.values.agents[i].modelProvider}
+                    >
+                      {(modelProvider) => (
+                        <Activity mode={modelProviders.find(p => p.id === modelProvider) instanceof LMStudio ? "visible" : "hidden"}>
+                          <div className="grid grid-cols-2 gap-4">
+                            <form.AppField name={`agents[${i}].modelLoad.autoLoad`}>
+                              {(subField) => <subField.CheckboxField label="Load Model Before Runs" orientation="horizontal" className="items-end" />}
+                            </form.AppField>
+                            <form.AppField name={`agents[${i}].modelLoad.contextLength`}>
+                              {(subField) => <subField.NumberField label="Load with Context Length" inputProps={{ min: 1, step: 1, placeholder: "LM Studio Default" }} />}
+                            </form.AppField>
+                          </div>
+                        </Activity>
+                      )}
+                    </form.Subscribe>
+                    <div className="flex justify-end">
+                      <Button type="button" variant="ghost" size="sm" disabled={refreshingModels} onClick={reloadModels}>
+                        {refreshingModels ? <Loader2Icon size={14} className="animate-spin" /> : <RefreshCw size={14} />} Refresh Models
+                      </Button>
+                    </div>
+                    <form.Field name={`agents[${i}].fallbackModels`} mode="array">
+                      {(field) => (
+                        <div className="w-full">
+                          <div className="flex gap-4 items-center">
+                            <h2>Fallback Models</h2>
+                            <Button onClick={(e) => {
+                              e.preventDefault()
+                              field.pushValue({ modelProvider: "", model: "" })
+                            }}>
+                              <Plus size={16} />
+                            </Button>
+                          </div>
+                          <div className="flex flex-col gap-2">
+                            {field.state.value?.map((fallback, j) => (
+                              <div className="relative grid grid-cols-2 gap-4 pr-10" key={j}>
+                                <form.AppField name={`agents[${i}].fallbackModels[${j}].modelProvider`}>
+                                  {(subField) => (
+                                    <subField.SelectField label={`Fallback ${j + 1} Provider`} placeholder="Select Provider" onValueChange={() => {
+                                      form.setFieldValue(`agents[${i}].fallbackModels[${j}].model`, "")
+                                    }}>
+                                      <SelectGroup>
+                                        {modelsByProvider.map((provider) => (
+                                          <SelectItem key={`agent-${agent.id}-fallback-${j}-provider-${provider.id}`} value={provider.id}>{provider.label}</SelectItem>
+                                        ))}
+                                      </SelectGroup>
+                                    </subField.SelectField>
+                                  )}
+                                </form.AppField>
+                                <form.AppField name={`agents[${i}].fallbackModels[${j}].model`}>
+                                  {(subField) => (
+                                    <subField.SelectField label="Model" placeholder="Select Model">
+                                      <SelectGroup>
+                                        {modelsByProvider.find(provider => provider.id === fallback.modelProvider)?.models.map((model, k) => (
+                                          <SelectItem key={`agent-${agent.id}-fallback-${j}-model-${model.id}-${k}`} value={model.id}>{model.id}</SelectItem>
+                                        ))}
+                                      </SelectGroup>
+                                    </subField.SelectField>
+                                  )}
+                                </form.AppField>
+                                <Trash
+                                  size={16}
+                                  onClick={() => {
+                                    field.removeValue(j)
+                                    form.handleSubmit()
+                                  }}
+                                  className="absolute cursor-pointer right-4 top-1/2 hover:stroke-red-600 transition-colors duration-300"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </form.Field>
+                    <div className="flex flex-col gap-2">
+                      <h2 className="text-center">Generation Settings</h2>
+                      <div className="grid grid-cols-2 gap-4">
+                        <form.AppField name={`agents[${i}].modelSettings.temperature`}>
+                          {(subField) => <subField.NumberField label="Temperature" inputProps={{ min: 0, max: 2, step: 0.1, placeholder: "Model Default" }} />}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].modelSettings.topP`}>
+                          {(subField) => <subField.NumberField label="Top P" inputProps={{ min: 0, max: 1, step: 0.05, placeholder: "Model Default" }} />}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].modelSettings.maxTokens`}>
+                          {(subField) => <subField.NumberField label="Max Output Tokens" inputProps={{ min: 1, step: 1, placeholder: "Model Default" }} />}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].modelSettings.toolChoice`}>
+                          {(subField) => (
+                            <subField.SelectField label="Tool Choice" placeholder="Model Default" onValueChange={(value) => {
+                              if (value === "default") subField.handleChange(undefined)
+                            }}>
+                              <SelectGroup>
+                                <SelectItem value="default">Model Default</SelectItem>
+                                <SelectItem value="auto">Auto</SelectItem>
+                                <SelectItem value="required">Required</SelectItem>
+                                <SelectItem value="none">None</SelectItem>
+                              </SelectGroup>
+                            </subField.SelectField>
+                          )}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].modelSettings.reasoningEffort`}>
+                          {(subField) => (
+                            <subField.SelectField label="Reasoning Effort" placeholder="Model Default" onValueChange={(value) => {
+                              if (value === "default") subField.handleChange(undefined)
+                            }}>
+                              <SelectGroup>
+                                <SelectItem value="default">Model Default</SelectItem>
+                                <SelectItem value="minimal">Minimal</SelectItem>
+                                <SelectItem value="low">Low</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="high">High</SelectItem>
+                              </SelectGroup>
+                            </subField.SelectField>
+                          )}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].modelSettings.parallelToolCalls`}>
+                          {(subField) => <subField.CheckboxField label="Parallel Tool Calls" orientation="horizontal" className="items-end" />}
+                        </form.AppField>
+                      </div>
+                      <form.AppField name={`agents[${i}].modelSettings.stopSequences`}>
+                        {(subField) => <subField.TextareaField label="Stop Sequences (one per line)" />}
+                      </form.AppField>
+                      <div className="flex justify-center">
+                        <form.AppField name={`agents[${i}].modelSettings.allowRequestOverrides`}>
+                          {(subField) => <subField.CheckboxField label="Allow Requests to Override Temperature, Top P and Max Tokens" orientation="horizontal" />}
+                        </form.AppField>
+                      </div>
+                      <form.Subscribe
+                        selector={(state) => state.values.agents[i].modelSettings?.allowRequestOverrides}
+                      >
+                        {(allowRequestOverrides) => (
+                          <Activity mode={allowRequestOverrides ? "visible" : "hidden"}>
+                            <div className="grid grid-cols-2 gap-4">
+                              <form.AppField name={`agents[${i}].modelSettings.maxRequestTemperature`}>
+                                {(subField) => <subField.NumberField label="Max Request Temperature" inputProps={{ min: 0, max: 2, step: 0.1, placeholder: "2" }} />}
+                              </form.AppField>
+                              <form.AppField name={`agents[${i}].modelSettings.maxRequestTokens`}>
+                                {(subField) => <subField.NumberField label="Max Request Tokens" inputProps={{ min: 1, step: 1, placeholder: "Max Output Tokens" }} />}
+                              </form.AppField>
+                            </div>
+                          </Activity>
+                        )}
+                      </form.Subscribe>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <h2 className="text-center">Context Window</h2>
+                      <div className="grid grid-cols-2 gap-4">
+                        <form.AppField name={`agents[${i}].context.contextLimit`}>
+                          {(subField) => <subField.NumberField label="Context Limit (tokens)" inputProps={{ min: 1, step: 1, placeholder: "From Provider" }} />}
+                        </form.AppField>
+                        <form.AppField name={`agents[${i}].context.strategy`}>
+                          {(subField) => (
+                            <subField.SelectField label="When Input Exceeds the Limit" placeholder="Reject Request">
+                              <SelectGroup>
+                                <SelectItem value="none">Reject Request</SelectItem>
+                                <SelectItem value="drop_oldest">Drop Oldest Turns</SelectItem>
+                                <SelectItem value="truncate_tool_outputs">Truncate Tool Outputs</SelectItem>
+                                <SelectItem value="summarize">Summarize with Pruning Agent</SelectItem>
+                              </SelectGroup>
+                            </subField.SelectField>
+                          )}
+                        </form.AppField>
+                      </div>
+                      <form.Subscribe
+                        selector={(state) => state.values.agents[i].context?.strategy}
+                      >
+                        {(strategy) => (
+                          <Activity mode={strategy === "summarize" ? "visible" : "hidden"}>
+                            <form.AppField name={`agents[${i}].context.pruningAgentID`}>
+                              {(subField) => (
+                                <subField.SelectField label="Pruning Agent" placeholder="Select Agent">
+                                  <SelectGroup>
+                                    {form.state.values.agents.filter(a => a.id !== agent.id).map((pruningAgent) => (
+                                      <SelectItem key={pruningAgent.id} value={pruningAgent.id}>{pruningAgent.name}</SelectItem>
+                                    ))}
+                                  </SelectGroup>
+                                </subField.SelectField>
+                              )}
+                            </form.AppField>
+                          </Activity>
+                        )}
+                      </form.Subscribe>
+                    </div>
+                    <form.AppField name={`agents[${i}].toolEventsMode`}>
+                      {(subField) => (
+                        <subField.SelectField label="Tool Activity in Streams" placeholder="Text Markers">
+                          <SelectGroup>
+                            <SelectItem value="markers">Text Markers ([Tool Call] in message content)</SelectItem>
+                            <SelectItem value="events">Structured Events (x-tool-events SSE events)</SelectItem>
+                          </SelectGroup>
                         </subField.SelectField>
                       )}
                     </form.AppField>
+                    <form.AppField name={`agents[${i}].inputModalities`}>
+                      {(subField) => (
+                        <subField.MultiSelectField label="Input Modalities (model must support them)">
+                          <MultiSelectContent search={false}>
+                            <MultiSelectGroup>
+                              <MultiSelectItem value="image" className="text-center">Images</MultiSelectItem>
+                            </MultiSelectGroup>
+                          </MultiSelectContent>
+                        </subField.MultiSelectField>
+                      )}
+                    </form.AppField>
                     <form.AppField name={`agents[${i}].agentTools`}>
                       {(subField) => (
                         <div className="flex flex-col gap-2">
@@ -283,6 +519,12 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
                       {(mcpToolsField) => (
                         <div>
                           <h2>MCP Tools</h2>
+                          {(plugin.toolConflicts[agent.id]?.length ?? 0) > 0 && (
+                            <div className="text-xs text-destructive pb-2">
+                              {plugin.toolConflicts[agent.id].map((conflict, k) => <p key={k}>{conflict}</p>)}
+                              <p>Set a tool name prefix on the MCP server or a name for the tool below to keep both.</p>
+                            </div>
+                          )}
                           <div className="grid place-items-center">
                             <form.Subscribe
                               selector={(state) => (state.values.agents[i].mcpTools)}
@@ -348,6 +590,9 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
 
                             // Get available tools from connected server, or use saved toolIDs if offline
                             const serverTools = mcpServerTools?.find(mst => mst.serverID === mcpTool.serverID)?.tools
+                            const serverResources = mcpServerTools?.find(mst => mst.serverID === mcpTool.serverID)?.resources
+                            const serverPrompts = mcpServerTools?.find(mst => mst.serverID === mcpTool.serverID)?.prompts
+                            const toolChanges = plugin.mcpManager.getToolChanges(mcpTool.serverID)
 
                             return (
                               <div key={j} className="relative">
@@ -385,9 +630,10 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
                                           ))
                                         ) : (
                                           // Show interactive tools when online
-                                          serverTools?.map((tool, k) => (
-                                            <div key={k} className="flex gap-2 cursor-pointer">
+                                          serverTools?.map((tool) => (
+                                            <div key={tool.name} className="flex gap-2 cursor-pointer">
                                               <Label htmlFor={tool.name}>{tool.name ?? tool.title}</Label>
+                                              {toolChanges?.added.includes(tool.name) && <Badge variant="secondary">New</Badge>}
                                               <Checkbox
                                                 id={tool.name}
                                                 defaultChecked={mcpTool.toolIDs.includes(tool.name)}
@@ -406,6 +652,164 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
                                           ))
                                         )}
                                       </div>
+                                      {toolChanges && (
+                                        <div className="flex gap-2 items-center flex-wrap text-xs text-muted-foreground">
+                                          <span>Tools changed at {new Date(toolChanges.changedAt).toLocaleTimeString()}.</span>
+                                          {toolChanges.removed.map(toolName => (
+                                            <Badge key={toolName} variant={mcpTool.toolIDs.includes(toolName) ? "destructive" : "outline"}>Removed: {toolName}</Badge>
+                                          ))}
+                                          <Button type="button" variant="ghost" size="sm" onClick={() => plugin.mcpManager.dismissToolChanges(mcpTool.serverID)}>
+                                            Dismiss
+                                          </Button>
+                                        </div>
+                                      )}
+                                      {!isOffline && (serverTools?.length ?? 0) > 0 && (
+                                        <Accordion type="single" collapsible>
+                                          <AccordionItem value="tool-overrides">
+                                            <AccordionTrigger className="px-0 text-sm">Tool Names & Descriptions</AccordionTrigger>
+                                            <AccordionContent>
+                                              <form.Subscribe selector={(state) => state.values.agents[i].mcpTools[j]?.toolOverrides}>
+                                                {(toolOverrides) => (
+                                                  <div className="flex flex-col gap-2">
+                                                    {serverTools?.map(tool => {
+                                                      const override = toolOverrides?.[tool.name] ?? {}
+                                                      const updateOverride = (update: { alias?: string, description?: string }) => {
+                                                        form.setFieldValue(`agents[${i}].mcpTools[${j}].toolOverrides`, { ...toolOverrides, [tool.name]: { ...override, ...update } })
+                                                      }
+                                                      return (
+                                                        <div key={tool.name} className="grid grid-cols-2 gap-4">
+                                                          <div>
+                                                            <Label htmlFor={`${mcpTool.serverID}-${tool.name}-alias`}>{tool.name}: Name</Label>
+                                                            <Input
+                                                              id={`${mcpTool.serverID}-${tool.name}-alias`}
+                                                              value={override.alias ?? ""}
+                                                              placeholder={plugin.mcpManager.getAgentToolName(serverConfig, tool.name)}
+                                                              pattern="[A-Za-z0-9_\-]*"
+                                                              onChange={(e) => updateOverride({ alias: e.target.value })}
+                                                            />
+                                                          </div>
+                                                          <div>
+                                                            <Label htmlFor={`${mcpTool.serverID}-${tool.name}-description`}>{tool.name}: Description</Label>
+                                                            <Input
+                                                              id={`${mcpTool.serverID}-${tool.name}-description`}
+                                                              value={override.description ?? ""}
+                                                              placeholder={tool.description}
+                                                              onChange={(e) => updateOverride({ description: e.target.value })}
+                                                            />
+                                                          </div>
+                                                        </div>
+                                                      )
+                                                    })}
+                                                  </div>
+                                                )}
+                                              </form.Subscribe>
+                                            </AccordionContent>
+                                          </AccordionItem>
+                                        </Accordion>
+                                      )}
+                                      {(isOffline ? (mcpTool.resourceURIs?.length ?? 0) > 0 : (serverResources?.length ?? 0) > 0) && (
+                                        <div className="flex flex-col gap-2">
+                                          <h5>Resources</h5>
+                                          <div className="flex gap-6 flex-wrap">
+                                            {isOffline ? (
+                                              mcpTool.resourceURIs?.map((uri, k) => (
+                                                <div key={k} className="flex gap-2 items-center">
+                                                  <Label htmlFor={`${mcpTool.serverID}-${uri}`} className="text-muted-foreground">
+                                                    {uri}
+                                                  </Label>
+                                                  <Checkbox
+                                                    id={`${mcpTool.serverID}-${uri}`}
+                                                    checked={true}
+                                                    disabled={true}
+                                                    className="opacity-50"
+                                                  />
+                                                </div>
+                                              ))
+                                            ) : (
+                                              serverResources?.map((resource, k) => (
+                                                <div key={k} className="flex gap-2 cursor-pointer">
+                                                  <Label htmlFor={`${mcpTool.serverID}-${resource.uri}`} title={resource.uri}>{resource.title ?? resource.name}</Label>
+                                                  <Checkbox
+                                                    id={`${mcpTool.serverID}-${resource.uri}`}
+                                                    defaultChecked={mcpTool.resourceURIs?.includes(resource.uri)}
+                                                    onCheckedChange={(checked) => {
+                                                      const resourceURIs = (mcpTool.resourceURIs ?? []).filter(uri => uri !== resource.uri)
+                                                      mcpTool.resourceURIs = checked ? [...resourceURIs, resource.uri] : resourceURIs
+                                                      form.handleSubmit()
+                                                    }}
+                                                  />
+                                                </div>
+                                              ))
+                                            )}
+                                          </div>
+                                        </div>
+                                      )}
+                                      {(isOffline ? (mcpTool.prompts?.length ?? 0) > 0 : (serverPrompts?.length ?? 0) > 0) && (
+                                        <div className="flex flex-col gap-2">
+                                          <h5>Prompts Added to Instructions</h5>
+                                          <div className="flex gap-6 flex-wrap">
+                                            {isOffline ? (
+                                              mcpTool.prompts?.map((prompt, k) => (
+                                                <div key={k} className="flex gap-2 items-center">
+                                                  <Label htmlFor={`${mcpTool.serverID}-prompt-${prompt.name}`} className="text-muted-foreground">
+                                                    {prompt.name}
+                                                  </Label>
+                                                  <Checkbox
+                                                    id={`${mcpTool.serverID}-prompt-${prompt.name}`}
+                                                    checked={true}
+                                                    disabled={true}
+                                                    className="opacity-50"
+                                                  />
+                                                </div>
+                                              ))
+                                            ) : (
+                                              serverPrompts?.map((prompt, k) => (
+                                                <div key={k} className="flex gap-2 cursor-pointer">
+                                                  <Label htmlFor={`${mcpTool.serverID}-prompt-${prompt.name}`} title={prompt.description}>{prompt.title ?? prompt.name}</Label>
+                                                  <Checkbox
+                                                    id={`${mcpTool.serverID}-prompt-${prompt.name}`}
+                                                    defaultChecked={mcpTool.prompts?.some(p => p.name === prompt.name)}
+                                                    onCheckedChange={(checked) => {
+                                                      const prompts = form.getFieldValue(`agents[${i}].mcpTools[${j}].prompts`) ?? []
+                                                      form.setFieldValue(
+                                                        `agents[${i}].mcpTools[${j}].prompts`,
+                                                        checked
+                                                          ? [...prompts, { name: prompt.name, arguments: Object.fromEntries((prompt.arguments ?? []).map(a => [a.name, ""])) }]
+                                                          : prompts.filter(p => p.name !== prompt.name)
+                                                      )
+                                                      form.handleSubmit()
+                                                    }}
+                                                  />
+                                                </div>
+                                              ))
+                                            )}
+                                          </div>
+                                          <form.Subscribe selector={(state) => state.values.agents[i].mcpTools[j]?.prompts}>
+                                            {(selectedPrompts) => (
+                                              <>
+                                                {!isOffline && selectedPrompts?.map((selectedPrompt, k) => {
+                                                  const promptArguments = serverPrompts?.find(p => p.name === selectedPrompt.name)?.arguments ?? []
+                                                  if (promptArguments.length === 0) return null
+                                                  return (
+                                                    <div key={selectedPrompt.name} className="grid grid-cols-2 gap-4">
+                                                      {promptArguments.map(argument => (
+                                                        <form.AppField key={argument.name} name={`agents[${i}].mcpTools[${j}].prompts[${k}].arguments.${argument.name}`}>
+                                                          {(subField) => (
+                                                            <subField.TextField
+                                                              label={`${selectedPrompt.name}: ${argument.name}${argument.required ? " *" : ""}`}
+                                                              inputProps={{ placeholder: argument.description }}
+                                                            />
+                                                          )}
+                                                        </form.AppField>
+                                                      ))}
+                                                    </div>
+                                                  )
+                                                })}
+                                              </>
+                                            )}
+                                          </form.Subscribe>
+                                        </div>
+                                      )}
                                     </div>
                                   )
                                 }
@@ -476,8 +880,17 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
                     name: "",
                     instructions: "",
                     collapsed: false,
-                    modelProvider: "" as ModelProviderID,
+                    modelProvider: "",
                     model: "",
+                    fallbackModels: [],
+                    modelSettings: {
+                      parallelToolCalls: true
+                    },
+                    context: {
+                      strategy: "none"
+                    },
+                    toolEventsMode: "markers",
+                    inputModalities: [],
                     toolName: "",
                     toolDescription: "",
                     enabled: true,
@@ -507,3 +920,30 @@ export default function AgentsSettings({ plugin }: { plugin: ObsidianAgentsServe
   )
 
 }
+
+function AgentUsageSummary({ plugin, agentID }: { plugin: ObsidianAgentsServer, agentID: string }) {
+  // Read on every render, requests served while the settings are open re-render it
+  const [, setUsageCount] = useState(0)
+  useEffect(() => {
+    const ref = plugin.events.on(AGENT_USAGE_CHANGED_EVENT, (changedID: string) => {
+      if (changedID === agentID) setUsageCount(count => count + 1)
+    })
+    return () => plugin.events.offref(ref)
+  }, [plugin, agentID])
+  const usage = plugin.usageStore.get(agentID)
+  if (!usage) {
+    return <p className="text-xs text-muted-foreground">No usage recorded yet</p>
+  }
+  return (
+    <div className="flex gap-4 items-center text-xs text-muted-foreground">
+      <p>
+        {usage.requests.toLocaleString()} requests · {usage.inputTokens.toLocaleString()} input / {usage.outputTokens.toLocaleString()} output tokens · last used {new Date(usage.lastUsed).toLocaleString()}
+      </p>
+      <Button type="button" variant="ghost" size="sm" onClick={async () => {
+        await plugin.usageStore.reset(agentID)
+      }}>
+        Reset
+      </Button>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
-import { MODEL_PROVIDERS, ModelProviderID } from "~/models/providers/constants"
 import { TOOL_TYPES, ToolType } from "~/tools/types";
 import { VaultToolsID } from "~/tools/vault";
 import { z } from "zod"
+import { ToolEventsMode } from "~/agents/chatCompletionApiTypes";
 
 export const agentSettingsSchema = z.object({
   // id: z.string(),
@@ -12,7 +12,7 @@ export const agentSettingsSchema = z.object({
   toolDescription: z.string(),
   instructions: z.string(),
   collapsed: z.boolean(),
-  modelProvider: z.enum([MODEL_PROVIDERS.ollama.id, MODEL_PROVIDERS.lmstudio.id]),
+  modelProvider: z.string().describe("ID of the model provider entry the agent's model is served by"),
   model: z.string(),
   agentTools: z.array(z.string()),
   vaultTools: z.record(z.enum([
@@ -43,6 +43,41 @@ export const agentSettingsSchema = z.object({
 
 type AS = z.infer<typeof agentSettingsSchema>
 
+// Triggered on the plugin's events after agents were built or rebuilt
+export const AGENTS_BUILT_EVENT = "agents-built"
+
+// Non-text content an agent's model accepts in user messages
+export type InputModality = "image"
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high"
+
+// Generation settings sent with every model call of an agent, unset values use the provider's defaults
+export interface AgentModelSettings {
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  // One stop sequence per line
+  stopSequences?: string
+  parallelToolCalls?: boolean
+  toolChoice?: "auto" | "required" | "none"
+  reasoningEffort?: ReasoningEffort
+  // Request-level temperature, top_p and max tokens are only applied when allowed, clamped to these limits
+  allowRequestOverrides?: boolean
+  maxRequestTemperature?: number
+  maxRequestTokens?: number
+}
+
+export type ContextStrategy = "none" | "drop_oldest" | "truncate_tool_outputs" | "summarize"
+
+// How an agent's input is compacted when it doesn't fit the model's context window
+export interface AgentContextSettings {
+  // Overrides the context limit reported by the model provider
+  contextLimit?: number
+  strategy: ContextStrategy
+  // Agent that writes the summary of older turns for the summarize strategy
+  pruningAgentID?: string
+}
+
 export interface AgentSettings {
   id: string,
   name: string,
@@ -52,8 +87,23 @@ export interface AgentSettings {
   toolDescription: string,
   instructions: string,
   collapsed: boolean,
-  modelProvider: ModelProviderID
+  // ID of the model provider entry in settings
+  modelProvider: string
   model: string
+  // Tried in order when the primary model's provider is unavailable
+  fallbackModels?: {
+    modelProvider: string
+    model: string
+  }[]
+  modelSettings?: AgentModelSettings
+  context?: AgentContextSettings
+  // LM Studio only, load the model with a chosen context length before runs instead of relying on just-in-time loading
+  modelLoad?: {
+    autoLoad: boolean
+    contextLength?: number
+  }
+  toolEventsMode?: ToolEventsMode
+  inputModalities?: InputModality[]
   agentTools: string[]
   vaultTools: Record<VaultToolsID, boolean>
   includedFolders: {
@@ -67,6 +117,18 @@ export interface AgentSettings {
     type: Extract<ToolType, { id: "mcp" }>
     serverID: string,
     toolIDs: string[]
+    // Per tool, a name replacing the (prefixed) MCP tool name and a description replacing the server's
+    toolOverrides?: Record<string, {
+      alias?: string
+      description?: string
+    }>
+    // URIs of the server's resources the agent can list and read through the generated resource tools
+    resourceURIs?: string[]
+    // Prompts of the server added to the agent's instructions, with the values of their arguments
+    prompts?: {
+      name: string
+      arguments?: Record<string, string>
+    }[]
   }[],
   tools: {
     enabled: boolean,
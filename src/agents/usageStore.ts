@@ -0,0 +1,76 @@
+import { type Usage } from "@openai/agents";
+import { normalizePath } from "obsidian";
+import ObsidianAgentsServer from "~/index";
+
+export interface AgentUsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  lastUsed: number
+}
+
+const STORE_FILE = "usage.json"
+
+// Triggered on the plugin's events with the agent id whenever its usage totals change
+export const AGENT_USAGE_CHANGED_EVENT = "agent-usage-changed"
+
+/**
+ * Keeps running token usage totals per agent in a JSON file in the plugin folder
+ * so the settings UI can show how much each agent has consumed.
+ */
+export class UsageStore {
+  private plugin: ObsidianAgentsServer
+  private totals: Record<string, AgentUsageTotals> = {}
+
+  constructor(plugin: ObsidianAgentsServer) {
+    this.plugin = plugin
+  }
+
+  private get path() {
+    return normalizePath(`${this.plugin.manifest.dir}/${STORE_FILE}`)
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter
+    try {
+      if (await adapter.exists(this.path)) {
+        this.totals = JSON.parse(await adapter.read(this.path)) as Record<string, AgentUsageTotals>
+      }
+    } catch (err) {
+      console.error('[UsageStore] Failed to load usage totals: ', err)
+      this.totals = {}
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.totals))
+  }
+
+  async record(agentID: string, usage: Usage): Promise<void> {
+    const totals = this.totals[agentID] ?? { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, lastUsed: 0 }
+    this.totals[agentID] = {
+      requests: totals.requests + usage.requests,
+      inputTokens: totals.inputTokens + usage.inputTokens,
+      outputTokens: totals.outputTokens + usage.outputTokens,
+      totalTokens: totals.totalTokens + usage.totalTokens,
+      lastUsed: Date.now()
+    }
+    this.plugin.events.trigger(AGENT_USAGE_CHANGED_EVENT, agentID)
+    try {
+      await this.save()
+    } catch (err) {
+      console.error('[UsageStore] Failed to save usage totals: ', err)
+    }
+  }
+
+  get(agentID: string): AgentUsageTotals | undefined {
+    return this.totals[agentID]
+  }
+
+  async reset(agentID: string): Promise<void> {
+    delete this.totals[agentID]
+    this.plugin.events.trigger(AGENT_USAGE_CHANGED_EVENT, agentID)
+    await this.save()
+  }
+}
@@ -1,5 +1,6 @@
 import { createFormHook, createFormHookContexts } from "@tanstack/react-form";
 import { TextField } from "./textField";
+import { NumberField } from "./numberField";
 import { CheckboxField } from "./checkboxField";
 import { TextareaField } from "./textareaField";
 import { SelectField } from "./selectField";
@@ -13,6 +14,7 @@ export const { useAppForm, withForm } = createFormHook({
 	formContext,
 	fieldComponents: {
 		TextField,
+		NumberField,
 		TextareaField,
 		SelectField,
 		MultiSelectField,
@@ -0,0 +1,22 @@
+import { ComponentPropsWithRef } from "react";
+import { useFieldContext } from ".";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+export function NumberField({ label, inputProps, ...divProps }: { label: string, inputProps?: Omit<ComponentPropsWithRef<"input">, "id" | "name" | "onBlur" | "value" | "type"> } & ComponentPropsWithRef<"div">) {
+	const field = useFieldContext<number | undefined>()
+	return (
+		<div {...divProps}>
+			<Label htmlFor={field.name}>{label}</Label>
+			<Input
+				id={field.name}
+				name={field.name}
+				type="number"
+				onBlur={field.handleBlur}
+				value={field.state.value ?? ""}
+				onChange={(e) => field.handleChange(e.target.value === "" ? undefined : Number(e.target.value))}
+				{...inputProps}
+			/>
+		</div>
+	)
+}
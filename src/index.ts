@@ -1,43 +1,70 @@
 import "./styles.css"
 
-import { Notice, Plugin } from 'obsidian';
+import { Events, Notice, Plugin } from 'obsidian';
 import { Agent, Runner, Tool } from "@openai/agents"
 
 import { AgentsServerSettings } from '~/settings';
-import { AgentSettings } from "~/agents/types"
+import { AGENTS_BUILT_EVENT, AgentSettings } from "~/agents/types"
 import { nanoid } from "nanoid";
-import { MODEL_PROVIDERS } from "~/models/providers/constants";
-import { ModelProvider } from "~/models/providers";
+import { MODEL_PROVIDERS, ModelProviderID } from "~/models/providers/constants";
+import { convertAgentModelSettings, ModelProvider, UnsupportedEmbeddingsError } from "~/models/providers";
 import { LMStudio } from "~/models/providers/lmstudio";
+import { Ollama } from "~/models/providers/ollama";
+import { ModelChain } from "~/models/modelChain";
+import { Anthropic } from "~/models/providers/anthropic";
+import { OpenAICompatible } from "~/models/providers/openaiCompatible";
 import { OpenAI } from "~/models/providers/openai";
-import { aisdk } from "@openai/agents-extensions";
+import { Replay } from "~/models/providers/replay";
 
 import { Hono } from "hono";
 import { cors } from "hono/cors"
 import { streamSSE } from "hono/streaming"
-import { DEFAULT_SETTINGS, ObsidianAgentsServerSettings } from "~/settings/types";
+import { ApiKeyConfig, DEFAULT_SETTINGS, ObsidianAgentsServerSettings } from "~/settings/types";
 import { serve, ServerType } from "@hono/node-server";
-import { CreateChatCompletionBody } from "~/agents/chatCompletionApiTypes";
-import { convertMessagesToAgentInput, convertRunResultToCompletion, convertStreamToChunks } from "~/lib/utils";
-import { createVaultTools } from "~/tools/vault";
+import { CreateChatCompletionBody, ListChatCompletionsQueryParams, ToolEventsMode, UpdateChatCompletionBody } from "~/agents/chatCompletionApiTypes";
+import { ChatCompletionStore } from "~/agents/chatCompletionStore";
+import { CreateResponseBody, ResponseObject } from "~/agents/responsesApiTypes";
+import { CreateEmbeddingBody, CreateEmbeddingResponse } from "~/agents/embeddingsApiTypes";
+import { ResponseStore } from "~/agents/responseStore";
+import { UsageStore } from "~/agents/usageStore";
+import { ContextLengthError, ContextManager } from "~/agents/contextManager";
+import { convertMessagesToAgentInput, convertResponseInputToAgentInput, convertRunResultToCompletion, createCancelledCompletion, convertRunResultToResponse, convertStreamToChunks, convertResponseFormatToOutputType, convertStreamToResponseEvents, UnsupportedResponseFormatError, InputContentError, resolveVaultInputUrls, checkInputModalities, getRequestModelSettings } from "~/lib/utils";
+import { createVaultTools, WRITE_VAULT_TOOLS } from "~/tools/vault";
+import { convertToolChoice, createClientTools } from "~/tools/client";
+import { createAgentTool } from "~/tools/agent";
 import { AgentTool } from "~/tools/types";
 import { MCPManager } from "./mcp";
 import { AppWithPlugins } from "./tools/plugin-utils";
 
+type ServerEnv = { Variables: { apiKey?: ApiKeyConfig } }
+
 export default class ObsidianAgentsServer extends Plugin {
   settings: ObsidianAgentsServerSettings;
   isControlDevice: boolean = false;
   modelProviders: ModelProvider[] = []
   agents: Record<string, { settings: AgentSettings, instance: Agent }> = {}
+  // Tool name conflicts found while building each agent, by agent id
+  toolConflicts: Record<string, string[]> = {}
   runner: Runner = new Runner({ tracingDisabled: true })
-  honoApp?: Hono
+  honoApp?: Hono<ServerEnv>
   server?: ServerType
   tools: AgentTool[] = []
   mcpManager: MCPManager
+  chatCompletionStore: ChatCompletionStore = new ChatCompletionStore(this)
+  responseStore: ResponseStore = new ResponseStore(this)
+  usageStore: UsageStore = new UsageStore(this)
+  contextManager: ContextManager = new ContextManager(this)
+  // Lets settings views follow model provider refreshes and MCP server status changes
+  events: Events = new Events()
+  modelRefreshIntervalID?: number
 
   async onload() {
     await this.loadSettings();
+    await this.chatCompletionStore.load()
+    await this.responseStore.load()
+    await this.usageStore.load()
     this.modelProviders = this.initializeModelProviders();
+    this.startModelRefresh()
 
     this.tools = this.initializeTools()
 
@@ -85,6 +112,14 @@ export default class ObsidianAgentsServer extends Plugin {
       }
     }
 
+    // Migration: Provider entries used to be identified by their kind, keep those ids so agent references stay valid
+    for (const provider of this.settings.modelProviders) {
+      if (!provider.type) {
+        provider.type = provider.id as ModelProviderID
+        needsSave = true
+      }
+    }
+
     if (needsSave) {
       await this.saveSettings({ hideNotice: true });
     }
@@ -98,32 +133,73 @@ export default class ObsidianAgentsServer extends Plugin {
   }
 
   async initializeAgents() {
-    const agents: Record<string, { settings: AgentSettings, instance: Agent }> = {}
-    for (const agentSettings of this.settings.agents) {
+    this.agents = await this.buildAgents(this.settings.agents, {})
+  }
+
+  /**
+   * Rebuild some of the agents, e.g. once the MCP server of their tools reconnected, leaving the others as they are.
+   * Agents using a rebuilt agent as a tool hold its old instance, so they are rebuilt as well.
+   */
+  async rebuildAgents(agentIDs: string[]) {
+    const rebuiltIDs = new Set(agentIDs)
+    let added = true
+    while (added) {
+      added = false
+      for (const agentSettings of this.settings.agents) {
+        if (rebuiltIDs.has(agentSettings.id) || !agentSettings.agentTools.some(id => rebuiltIDs.has(id))) continue
+        rebuiltIDs.add(agentSettings.id)
+        added = true
+      }
+    }
+    const agents = { ...this.agents }
+    rebuiltIDs.forEach(id => delete agents[id])
+    this.agents = await this.buildAgents(this.settings.agents.filter(a => rebuiltIDs.has(a.id)), agents)
+    console.log(`[Agents] Rebuilt ${rebuiltIDs.size} agent(s)`)
+  }
+
+  private async buildAgents(agentSettingsList: AgentSettings[], agents: Record<string, { settings: AgentSettings, instance: Agent }>) {
+    for (const agentSettings of agentSettingsList) {
+      delete this.toolConflicts[agentSettings.id]
       if (!agentSettings.enabled) continue
-      const modelProvider = this.modelProviders.find(mp => mp.id === agentSettings.modelProvider)
-      if (!modelProvider?.instance) continue
+      const modelChain = new ModelChain(
+        [{ modelProvider: agentSettings.modelProvider, model: agentSettings.model }, ...agentSettings.fallbackModels ?? []].flatMap(({ modelProvider: providerID, model }) => {
+          const modelProvider = this.modelProviders.find(mp => mp.id === providerID)
+          const agentModel = model ? modelProvider?.getModel(model, agentSettings) : undefined
+          if (!modelProvider || !agentModel) return []
+          return [{
+            label: `${modelProvider.label}/${model}`,
+            model: agentModel,
+            providerData: modelProvider.getProviderData(agentSettings.modelSettings)
+          }]
+        })
+      )
+      if (modelChain.entries.length === 0) continue
 
       const tools = await this.getAgentTools(agentSettings)
+      const promptSnippets = await this.mcpManager.getInstructionsForAgent(agentSettings)
       agents[agentSettings.id] = {
         settings: agentSettings,
         instance: new Agent({
           name: agentSettings.name,
-          instructions: agentSettings.instructions,
-          model: aisdk(modelProvider.instance(agentSettings.model)),
+          instructions: [agentSettings.instructions, ...promptSnippets].filter(Boolean).join("\n\n"),
+          model: modelChain,
+          modelSettings: convertAgentModelSettings(agentSettings.modelSettings),
           tools
         })
       }
     }
-    this.agents = agents
     // add agents as tools in second for loop after agents have been created
-    this.settings.agents.forEach(agentSettings => {
+    agentSettingsList.forEach(agentSettings => {
       if (agentSettings.agentTools.length > 0) {
         const updatedAgent = agents[agentSettings.id]
         agentSettings.agentTools.forEach(agentToolID => {
           const agentTool = agents[agentToolID].instance
-          const agentToolSettings = this.agents[agentToolID].settings
-          updatedAgent.instance.tools.push(agentTool.asTool({
+          const agentToolSettings = agents[agentToolID].settings
+          if (updatedAgent.instance.tools.some(t => t.name === agentToolSettings.toolName)) {
+            this.reportToolConflict(agentSettings, `Tool name '${agentToolSettings.toolName}' of agent '${agentToolSettings.name}' is already used by another tool, the agent tool was left out`)
+            return
+          }
+          updatedAgent.instance.tools.push(createAgentTool(this, agentTool, {
             toolName: agentToolSettings.toolName,
             toolDescription: agentToolSettings.toolDescription
           }))
@@ -131,9 +207,15 @@ export default class ObsidianAgentsServer extends Plugin {
         agents[agentSettings.id] = updatedAgent
       }
     })
-    this.agents = agents
-    console.log('agents: ', this.agents)
+    console.log('agents: ', agents)
     console.log('appPlugins: ', (this.app as AppWithPlugins))
+    this.events.trigger(AGENTS_BUILT_EVENT)
+    return agents
+  }
+
+  private reportToolConflict(agent: AgentSettings, message: string) {
+    console.warn(`[Agents] ${agent.name}: ${message}`)
+    this.toolConflicts[agent.id] = [...this.toolConflicts[agent.id] ?? [], message]
   }
 
   initializeTools(): AgentTool[] {
@@ -143,18 +225,29 @@ export default class ObsidianAgentsServer extends Plugin {
 
   async getAgentTools(agent: AgentSettings): Promise<Tool[]> {
     const tools: Tool[] = []
+    // Models reject or silently mix up tools sharing a name, so only the first tool registered under a name is kept
+    const toolSources = new Map<string, string>()
+    const addTool = (tool: Tool, source: string) => {
+      const existingSource = toolSources.get(tool.name)
+      if (existingSource) {
+        this.reportToolConflict(agent, `Tool name '${tool.name}' is used by ${existingSource} and ${source}, the tool of ${source} was left out`)
+        return
+      }
+      toolSources.set(tool.name, source)
+      tools.push(tool)
+    }
     const agentVaultTools = Object.entries(agent.vaultTools).filter(([_key, value]) => value === true).map(([key, _value]) => key)
     if (agentVaultTools.length > 0) {
       const vaultTools = createVaultTools(this)
       for (const vaultTool of vaultTools) {
         if (agentVaultTools.includes(vaultTool.id)) {
-          tools.push(vaultTool.tool)
+          addTool(vaultTool.tool, "the vault tools")
         }
       }
     }
 
     const mcpTools = await this.mcpManager.getToolsForAgent(agent)
-    tools.push(...mcpTools)
+    mcpTools.forEach(({ tool, serverName }) => addTool(tool, `MCP server '${serverName}'`))
 
     // Custom Tools
     // for (const tool of agent.tools.filter(t => t.enabled)) {
@@ -166,16 +259,70 @@ export default class ObsidianAgentsServer extends Plugin {
     return tools
   }
 
+  getAvailableAgents(apiKey?: ApiKeyConfig) {
+    return Object.values(this.agents).filter(agent => !apiKey || apiKey.agentIDs.includes(agent.settings.id))
+  }
+
+  /**
+   * Resolve the agent serving a request's `model`, scoped to the agents the caller's API key allows.
+   * Read-only keys get a clone of the agent without write vault tools.
+   */
+  findAgent(model: string, apiKey?: ApiKeyConfig) {
+    const agent = this.getAvailableAgents(apiKey).find(a => a.instance.name === model)
+    if (!agent) return agent
+    // Each run gets its own model chain so the model that served it can be reported
+    return {
+      settings: agent.settings,
+      instance: agent.instance.clone({
+        model: agent.instance.model instanceof ModelChain ? agent.instance.model.fork() : agent.instance.model,
+        tools: apiKey?.readOnly
+          ? agent.instance.tools.filter(t => !(WRITE_VAULT_TOOLS as string[]).includes(t.name))
+          : agent.instance.tools
+      })
+    }
+  }
+
+  async refreshModelProviders() {
+    await Promise.all(this.modelProviders.map(p => p.refreshModels()))
+  }
+
+  /**
+   * Refresh the providers' models periodically so models loaded after startup (e.g. in LMStudio)
+   * show up without reopening the settings. Restarted when the interval setting changes.
+   */
+  startModelRefresh() {
+    if (this.modelRefreshIntervalID !== undefined) {
+      window.clearInterval(this.modelRefreshIntervalID)
+      this.modelRefreshIntervalID = undefined
+    }
+    if (!this.settings.modelRefreshInterval) return
+    this.modelRefreshIntervalID = this.registerInterval(window.setInterval(() => {
+      this.refreshModelProviders()
+    }, this.settings.modelRefreshInterval * 60 * 1000))
+  }
+
   initializeModelProviders(): ModelProvider[] {
     const providers = []
     for (const provider of this.settings.modelProviders) {
-      switch (provider.id) {
+      switch (provider.type) {
         case MODEL_PROVIDERS.openai.id:
           providers.push(new OpenAI(this, provider))
           break;
         case MODEL_PROVIDERS.lmstudio.id:
           providers.push(new LMStudio(this, provider))
           break;
+        case MODEL_PROVIDERS.ollama.id:
+          providers.push(new Ollama(this, provider))
+          break;
+        case MODEL_PROVIDERS.anthropic.id:
+          providers.push(new Anthropic(this, provider))
+          break;
+        case MODEL_PROVIDERS.custom.id:
+          providers.push(new OpenAICompatible(this, provider))
+          break;
+        case MODEL_PROVIDERS.replay.id:
+          providers.push(new Replay(this, provider))
+          break;
         default:
           break;
       }
@@ -196,13 +343,33 @@ export default class ObsidianAgentsServer extends Plugin {
 
     console.log(`[Server] Initializing on port ${this.settings.serverPort}...`);
 
-    const app = new Hono();
+    const app = new Hono<ServerEnv>();
     this.honoApp = app;
 
     app.use("/*", cors())
 
+    // API key auth is enforced once at least one key is configured in the General settings
+    app.use("/v1/*", async (c, next) => {
+      if (this.settings.apiKeys.length === 0) return next()
+
+      const token = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+      const apiKey = this.settings.apiKeys.find(k => k.key === token)
+      if (!apiKey) {
+        return c.json({
+          error: {
+            message: token ? "Incorrect API key provided." : "You didn't provide an API key. Provide it in the Authorization header as 'Bearer YOUR_KEY'.",
+            type: "invalid_request_error",
+            param: null,
+            code: "invalid_api_key"
+          }
+        }, 401)
+      }
+      c.set("apiKey", apiKey)
+      return next()
+    })
+
     app.get("/v1/models", async (c) => {
-      const models = Object.values(this.agents).map((agent) => ({
+      const models = this.getAvailableAgents(c.get("apiKey")).map((agent) => ({
         id: agent.instance.name,
         object: "model",
         created: Date.now(),
@@ -217,47 +384,205 @@ export default class ObsidianAgentsServer extends Plugin {
       })
     })
 
+    app.post("/v1/embeddings", async (c) => {
+      try {
+        const body = await c.req.json() as CreateEmbeddingBody
+        const { model, input, encoding_format = "float", dimensions } = body
+
+        const embeddingModel = this.settings.embeddingModels.find(m => m.name === model)
+        const provider = this.modelProviders.find(p => p.id === embeddingModel?.modelProvider)
+        if (!embeddingModel || !provider) {
+          return c.json({
+            error: {
+              message: `Embedding model '${model}' not found. Available embedding models: ${this.settings.embeddingModels.map(m => m.name).join(', ')}`,
+              type: "invalid_request_error",
+              param: "model"
+            }
+          }, 404)
+        }
+
+        const values = typeof input === "string" ? [input] : input
+        if (values.length === 0 || values.some(v => typeof v !== "string")) {
+          return c.json({
+            error: {
+              message: "Input must be a non-empty string or array of strings, token arrays are not supported.",
+              type: "invalid_request_error",
+              param: "input"
+            }
+          }, 400)
+        }
+
+        const { embeddings, tokens } = await provider.embed(embeddingModel.model, values as string[], { dimensions, signal: c.req.raw.signal })
+        const response: CreateEmbeddingResponse = {
+          object: "list",
+          data: embeddings.map((embedding, index) => ({
+            object: "embedding",
+            index,
+            embedding: encoding_format === "base64"
+              ? Buffer.from(new Float32Array(embedding).buffer).toString("base64")
+              : embedding
+          })),
+          model,
+          usage: {
+            prompt_tokens: tokens,
+            total_tokens: tokens
+          }
+        }
+        return c.json(response)
+
+      } catch (err: any) {
+        if (err instanceof UnsupportedEmbeddingsError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "model"
+            }
+          }, 400)
+        }
+        console.error('error handling embeddings: ', err)
+        return c.json({
+          error: {
+            message: err?.message ?? "Internal Server Error",
+            type: "internal_error"
+          }
+        }, 500)
+      }
+    })
+
     app.post("/v1/chat/completions", async (c) => {
       try {
         const body = await c.req.json() as CreateChatCompletionBody
         const { model, messages, stream = false } = body
 
-        const agent = Object.values(this.agents).find(a => a.instance.name === model)
+        const apiKey = c.get("apiKey")
+        const agent = this.findAgent(model, apiKey)
         if (!agent) {
           return c.json({
             error: {
-              message: `Model '${model}' not found. Available models: ${Object.values(this.agents).map(a => a.instance.name).join(', ')}`,
+              message: `Model '${model}' not found. Available models: ${this.getAvailableAgents(apiKey).map(a => a.instance.name).join(', ')}`,
               type: "invalid_request_error"
             }
           }, 404)
         }
 
-        const agentMessages = convertMessagesToAgentInput(messages);
+        const agentMessages = await resolveVaultInputUrls(this, agent.settings, convertMessagesToAgentInput(messages));
+        checkInputModalities(agent.settings, agentMessages)
+
+        // Client tools are added next to the agent's own tools and handed back to the client when called
+        const serverToolNames = agent.instance.tools.map(t => t.name)
+        const clientTools = createClientTools(body.tools ?? []).filter(t => {
+          if (!serverToolNames.includes(t.name)) return true
+          console.warn(`[Server] Ignoring client tool '${t.name}', the agent already has a tool with that name`)
+          return false
+        })
+        const outputType = convertResponseFormatToOutputType(body.response_format)
+        const requestModelSettings = getRequestModelSettings(agent.settings.modelSettings, {
+          temperature: body.temperature,
+          topP: body.top_p,
+          maxTokens: body.max_completion_tokens ?? body.max_tokens
+        })
+        const agentInstance = clientTools.length > 0 || body.tool_choice || outputType !== "text" || Object.keys(requestModelSettings).length > 0
+          ? agent.instance.clone({
+            tools: [...agent.instance.tools, ...clientTools],
+            modelSettings: {
+              ...agent.instance.modelSettings,
+              ...requestModelSettings,
+              ...(body.tool_choice && { toolChoice: convertToolChoice(body.tool_choice) })
+            },
+            outputType: outputType as Agent["outputType"]
+          })
+          : agent.instance
+        // Aborted by the node server when the client disconnects, which stops the model request and any further turns
+        const signal = c.req.raw.signal
+        const runInput = await this.contextManager.fitInput({ settings: agent.settings, instance: agentInstance }, agentMessages, { readOnly: apiKey?.readOnly, signal })
 
         if (stream) {
-          const result = await this.runner.run(agent.instance, agentMessages, { stream: true, context: { agentSettings: agent.settings } });
+          const result = await this.runner.run(agentInstance, runInput, { stream: true, signal, context: { agentSettings: agent.settings, readOnly: apiKey?.readOnly, signal } });
+          const completionID = `chatcmpl-${nanoid()}`
+          // The X-Tool-Events header lets a client override the agent's tool activity reporting
+          const toolEventsHeader = c.req.header("X-Tool-Events")
+          const toolEventsMode: ToolEventsMode = toolEventsHeader === "markers" || toolEventsHeader === "events"
+            ? toolEventsHeader
+            : agent.settings.toolEventsMode ?? "markers"
 
           return streamSSE(c, async (stream) => {
             try {
-              for await (const chunk of convertStreamToChunks(result, model)) {
+              const chunks = convertStreamToChunks(result, model, {
+                id: completionID,
+                clientToolNames: clientTools.map(t => t.name),
+                includeUsage: body.stream_options?.include_usage ?? false,
+                toolEventsMode
+              })
+              for await (const chunk of chunks) {
                 await stream.writeSSE({
+                  event: chunk.object === "chat.completion.tool_event" ? "x-tool-events" : undefined,
                   data: JSON.stringify(chunk),
                 });
               }
-              await stream.writeSSE({
-                data: '[DONE]',
-              });
+              if (result.cancelled) {
+                console.log(`[Server] Client disconnected, cancelled run of agent '${agent.settings.name}' (${completionID})`)
+              } else {
+                await stream.writeSSE({
+                  data: '[DONE]',
+                });
+              }
+              await result.completed
+              await this.usageStore.record(agent.settings.id, result.state._context.usage)
+              if (body.store) {
+                await this.chatCompletionStore.add(agent.settings.id, body, { ...convertRunResultToCompletion(result, model), id: completionID }, result.cancelled)
+              }
             } catch (streamErr) {
               console.error('Stream error:', streamErr);
             }
           });
         }
 
-        const result = await this.runner.run(agent.instance, agentMessages, { context: { agentSettings: agent.settings } });
+        const result = await this.runner.run(agentInstance, runInput, { signal, context: { agentSettings: agent.settings, readOnly: apiKey?.readOnly, signal } }).catch(async (err) => {
+          if (signal.aborted) {
+            console.log(`[Server] Client disconnected, cancelled run of agent '${agent.settings.name}'`)
+            if (body.store) {
+              await this.chatCompletionStore.add(agent.settings.id, body, createCancelledCompletion(model), true)
+            }
+          }
+          throw err
+        });
         const response = convertRunResultToCompletion(result, model);
+        await this.usageStore.record(agent.settings.id, result.state._context.usage)
+        if (body.store) {
+          await this.chatCompletionStore.add(agent.settings.id, body, response)
+        }
         return c.json(response)
 
       } catch (err: any) {
+        if (err instanceof UnsupportedResponseFormatError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "response_format"
+            }
+          }, 400)
+        }
+        if (err instanceof InputContentError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "messages"
+            }
+          }, 400)
+        }
+        if (err instanceof ContextLengthError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "messages",
+              code: "context_length_exceeded"
+            }
+          }, 400)
+        }
         console.error('error handling chat completion: ', err)
         return c.json({
           error: {
@@ -268,6 +593,251 @@ export default class ObsidianAgentsServer extends Plugin {
       }
     })
 
+    app.get("/v1/chat/completions", async (c) => {
+      const { after, limit, model, order } = c.req.query()
+      const metadata = Object.entries(c.req.query())
+        .map(([key, value]) => [key.match(/^metadata\[(.+)\]$/)?.[1], value])
+        .filter(([key]) => key !== undefined)
+      const params: ListChatCompletionsQueryParams = {
+        after,
+        limit: limit ? Number(limit) : undefined,
+        metadata: metadata.length > 0 ? Object.fromEntries(metadata) : null,
+        model,
+        order: order as ListChatCompletionsQueryParams["order"]
+      }
+      return c.json(this.chatCompletionStore.list(params, c.get("apiKey")?.agentIDs))
+    })
+
+    app.get("/v1/chat/completions/:completion_id", async (c) => {
+      const completionID = c.req.param("completion_id")
+      const completion = this.chatCompletionStore.get(completionID, c.get("apiKey")?.agentIDs)
+      if (!completion) {
+        return c.json({
+          error: {
+            message: `No chat completion found with id '${completionID}'`,
+            type: "invalid_request_error"
+          }
+        }, 404)
+      }
+      return c.json(completion)
+    })
+
+    app.get("/v1/chat/completions/:completion_id/messages", async (c) => {
+      const completionID = c.req.param("completion_id")
+      const { after, limit, order } = c.req.query()
+      const messages = this.chatCompletionStore.getMessages(completionID, {
+        after,
+        limit: limit ? Number(limit) : undefined,
+        order: order as ListChatCompletionsQueryParams["order"]
+      }, c.get("apiKey")?.agentIDs)
+      if (!messages) {
+        return c.json({
+          error: {
+            message: `No chat completion found with id '${completionID}'`,
+            type: "invalid_request_error"
+          }
+        }, 404)
+      }
+      return c.json(messages)
+    })
+
+    app.post("/v1/chat/completions/:completion_id", async (c) => {
+      const completionID = c.req.param("completion_id")
+      const { metadata } = await c.req.json() as UpdateChatCompletionBody
+      const completion = await this.chatCompletionStore.update(completionID, metadata ?? {}, c.get("apiKey")?.agentIDs)
+      if (!completion) {
+        return c.json({
+          error: {
+            message: `No chat completion found with id '${completionID}'`,
+            type: "invalid_request_error"
+          }
+        }, 404)
+      }
+      return c.json(completion)
+    })
+
+    app.delete("/v1/chat/completions/:completion_id", async (c) => {
+      const completionID = c.req.param("completion_id")
+      const response = await this.chatCompletionStore.delete(completionID, c.get("apiKey")?.agentIDs)
+      if (!response.deleted) {
+        return c.json({
+          error: {
+            message: `No chat completion found with id '${completionID}'`,
+            type: "invalid_request_error"
+          }
+        }, 404)
+      }
+      return c.json(response)
+    })
+
+    app.post("/v1/responses", async (c) => {
+      try {
+        const body = await c.req.json() as CreateResponseBody
+        const { model, input, instructions, previous_response_id, stream = false, store = true } = body
+
+        const apiKey = c.get("apiKey")
+        const agent = this.findAgent(model, apiKey)
+        if (!agent) {
+          return c.json({
+            error: {
+              message: `Model '${model}' not found. Available models: ${this.getAvailableAgents(apiKey).map(a => a.instance.name).join(', ')}`,
+              type: "invalid_request_error"
+            }
+          }, 404)
+        }
+
+        // Client tools are only handed back to the client by chat completions, responses run with the agent's own tools
+        if (body.tools?.length) {
+          return c.json({
+            error: {
+              message: "Client tools are not supported by /v1/responses, the agent runs with its configured tools. Use /v1/chat/completions to pass client tools.",
+              type: "invalid_request_error",
+              param: "tools"
+            }
+          }, 400)
+        }
+
+        // Responses of agents the caller's key can't use are treated as missing
+        const history = previous_response_id ? this.responseStore.getHistory(previous_response_id, apiKey?.agentIDs) : []
+        if (!history) {
+          return c.json({
+            error: {
+              message: `Previous response with id '${previous_response_id}' not found.`,
+              type: "invalid_request_error",
+              param: "previous_response_id",
+              code: "previous_response_not_found"
+            }
+          }, 404)
+        }
+
+        // Request instructions apply to this response only, so they extend the agent's built instructions (with its MCP prompts) rather than the stored history
+        const requestModelSettings = getRequestModelSettings(agent.settings.modelSettings, {
+          temperature: body.temperature,
+          topP: body.top_p,
+          maxTokens: body.max_output_tokens
+        })
+        const agentInstance = instructions || Object.keys(requestModelSettings).length > 0
+          ? agent.instance.clone({
+            instructions: instructions ? `${agent.instance.instructions}\n\n${instructions}` : agent.instance.instructions,
+            modelSettings: { ...agent.instance.modelSettings, ...requestModelSettings }
+          })
+          : agent.instance
+        const agentInput = [...history, ...await resolveVaultInputUrls(this, agent.settings, convertResponseInputToAgentInput(input, history))]
+        checkInputModalities(agent.settings, agentInput)
+        // Aborted by the node server when the client disconnects, which stops the model request and any further turns
+        const signal = c.req.raw.signal
+        // Compaction only shapes what the model sees, the stored history keeps the full conversation
+        const runInput = await this.contextManager.fitInput({ settings: agent.settings, instance: agentInstance }, agentInput, { readOnly: apiKey?.readOnly, signal })
+        const response: ResponseObject = {
+          id: `resp_${nanoid()}`,
+          object: "response",
+          created_at: Math.floor(Date.now() / 1000),
+          status: "in_progress",
+          model,
+          output: [],
+          output_text: "",
+          previous_response_id: previous_response_id ?? null,
+          instructions: instructions ?? null,
+          metadata: body.metadata ?? {},
+          usage: null,
+          error: null,
+          incomplete_details: null,
+          parallel_tool_calls: body.parallel_tool_calls ?? true,
+          temperature: body.temperature ?? null,
+          top_p: body.top_p ?? null,
+          tool_choice: body.tool_choice ?? "auto",
+          tools: [],
+          store: store !== false
+        }
+
+        if (stream) {
+          const result = await this.runner.run(agentInstance, runInput, { stream: true, signal, context: { agentSettings: agent.settings, readOnly: apiKey?.readOnly, signal } });
+
+          return streamSSE(c, async (stream) => {
+            try {
+              for await (const event of convertStreamToResponseEvents(result, response)) {
+                await stream.writeSSE({
+                  event: event.type,
+                  data: JSON.stringify(event),
+                });
+              }
+              await result.completed
+              if (response.status === "cancelled") {
+                console.log(`[Server] Client disconnected, cancelled run of agent '${agent.settings.name}' (${response.id})`)
+              }
+              await this.usageStore.record(agent.settings.id, result.state._context.usage)
+              if (response.store && response.status !== "failed") {
+                await this.responseStore.add(agent.settings.id, response, [...agentInput, ...result.output])
+              }
+            } catch (streamErr) {
+              console.error('Stream error:', streamErr);
+            }
+          });
+        }
+
+        let result
+        try {
+          result = await this.runner.run(agentInstance, runInput, { signal, context: { agentSettings: agent.settings, readOnly: apiKey?.readOnly, signal } });
+        } catch (err) {
+          if (!signal.aborted) throw err
+          // Keep the cancelled response so its input stays part of the previous_response_id chain
+          console.log(`[Server] Client disconnected, cancelled run of agent '${agent.settings.name}' (${response.id})`)
+          if (response.store) {
+            await this.responseStore.add(agent.settings.id, { ...response, status: "cancelled" }, agentInput)
+          }
+          throw err
+        }
+        const completedResponse = convertRunResultToResponse(result, response)
+        await this.usageStore.record(agent.settings.id, result.state._context.usage)
+        if (completedResponse.store) {
+          await this.responseStore.add(agent.settings.id, completedResponse, [...agentInput, ...result.output])
+        }
+        return c.json(completedResponse)
+
+      } catch (err: any) {
+        if (err instanceof InputContentError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "input"
+            }
+          }, 400)
+        }
+        if (err instanceof ContextLengthError) {
+          return c.json({
+            error: {
+              message: err.message,
+              type: "invalid_request_error",
+              param: "input",
+              code: "context_length_exceeded"
+            }
+          }, 400)
+        }
+        console.error('error handling response: ', err)
+        return c.json({
+          error: {
+            message: err?.message ?? "Internal Server Error",
+            type: "internal_error"
+          }
+        }, 500)
+      }
+    })
+
+    app.get("/v1/responses/:response_id", async (c) => {
+      const responseID = c.req.param("response_id")
+      const response = this.responseStore.get(responseID, c.get("apiKey")?.agentIDs)
+      if (!response) {
+        return c.json({
+          error: {
+            message: `No response found with id '${responseID}'`,
+            type: "invalid_request_error"
+          }
+        }, 404)
+      }
+      return c.json(response)
+    })
+
     try {
       this.server = serve({
         fetch: app.fetch,
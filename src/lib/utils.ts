@@ -1,8 +1,14 @@
-import { AgentInputItem, RunResult, StreamedRunResult } from "@openai/agents";
+import { AgentInputItem, AgentOutputItem, type JsonSchemaDefinition, type ModelSettings, protocol, RunResult, StreamedRunResult, Usage as RunUsage } from "@openai/agents";
 import { clsx, type ClassValue } from "clsx"
+import { arrayBufferToBase64 } from "obsidian";
 import { twMerge } from "tailwind-merge"
-import { ChatCompletionMessage, CreateChatCompletionResponse, ChatCompletionChoice, ChatCompletionChunk } from "~/agents/chatCompletionApiTypes";
-import { VAULT_TOOLS } from "~/tools/vault";
+import { ChatCompletionMessage, CreateChatCompletionResponse, ChatCompletionChoice, ChatCompletionChunk, FunctionToolCall, MessageContentPart, ResponseFormat, ToolActivityEvent, ToolEventsMode, Usage } from "~/agents/chatCompletionApiTypes";
+import { CreateResponseBody, ResponseObject, ResponseOutputMessage, ResponseStreamEvent, ResponseUsage } from "~/agents/responsesApiTypes";
+import { isPathAllowed, VAULT_TOOLS } from "~/tools/vault";
+import { AgentModelSettings, AgentSettings } from "~/agents/types";
+import type ObsidianAgentsServer from "~/index";
+import { nanoid } from "nanoid";
+import { ModelChain } from "~/models/modelChain";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -20,8 +26,35 @@ function formatToolName(name: string): string {
     .join(' ');
 }
 
+export class InputContentError extends Error {
+  name = 'InputContentError';
+}
+
+type UserContentItem = Exclude<Extract<AgentInputItem, { role: 'user' }>['content'], string>[number];
+
+function convertUserContentPart(part: MessageContentPart): UserContentItem {
+  switch (part.type) {
+    case 'text':
+      return { type: 'input_text', text: part.text };
+    case 'refusal':
+      return { type: 'input_text', text: part.refusal };
+    case 'image_url':
+      return { type: 'input_image', image: part.image_url.url, detail: part.image_url.detail };
+    case 'file':
+      if (!part.file.file_data) {
+        throw new InputContentError('File content parts must include file_data, uploaded file ids are not supported');
+      }
+      return { type: 'input_file', file: part.file.file_data, filename: part.file.filename };
+    case 'input_audio':
+      throw new InputContentError('Audio content parts are not supported');
+  }
+}
+
 export function convertMessagesToAgentInput(messages: ChatCompletionMessage[]): AgentInputItem[] {
-  return messages.map((msg) => {
+  // Tool results only carry the call id, so track the names of the calls they answer
+  const toolCallNames = new Map<string, string>();
+
+  return messages.flatMap((msg): AgentInputItem[] => {
     const contentText = typeof msg.content === 'string'
       ? msg.content
       : Array.isArray(msg.content)
@@ -31,49 +64,248 @@ export function convertMessagesToAgentInput(messages: ChatCompletionMessage[]):
     switch (msg.role) {
       case 'developer':
       case 'system':
-        return {
+        return [{
           role: 'system' as const,
           content: contentText,
-        } as AgentInputItem;
+        } as AgentInputItem];
       case 'user':
-        return {
+        // Keep content parts when the message carries more than text so images and files reach the model
+        if (Array.isArray(msg.content) && msg.content.some(part => part.type !== 'text')) {
+          return [{
+            role: 'user' as const,
+            content: msg.content.map(convertUserContentPart),
+          } as AgentInputItem];
+        }
+        return [{
           role: 'user' as const,
           content: contentText,
-        } as AgentInputItem;
-      case 'assistant':
-        return {
-          role: 'assistant' as const,
-          status: 'completed' as const,
-          content: contentText ? [{ type: 'output_text' as const, text: contentText }] : [],
-        } as AgentInputItem;
+        } as AgentInputItem];
+      case 'assistant': {
+        const items: AgentInputItem[] = [];
+        if (contentText || (!msg.tool_calls?.length && !msg.function_call)) {
+          items.push({
+            role: 'assistant' as const,
+            status: 'completed' as const,
+            content: contentText ? [{ type: 'output_text' as const, text: contentText }] : [],
+          } as AgentInputItem);
+        }
+        for (const toolCall of msg.tool_calls ?? []) {
+          const call = toolCall.type === 'function'
+            ? { name: toolCall.function.name, arguments: toolCall.function.arguments }
+            : { name: toolCall.custom.name, arguments: toolCall.custom.input };
+          toolCallNames.set(toolCall.id, call.name);
+          items.push({
+            type: 'function_call' as const,
+            callId: toolCall.id,
+            status: 'completed' as const,
+            ...call,
+          } as AgentInputItem);
+        }
+        if (msg.function_call) {
+          items.push({
+            type: 'function_call' as const,
+            callId: msg.function_call.name,
+            name: msg.function_call.name,
+            arguments: msg.function_call.arguments,
+            status: 'completed' as const,
+          } as AgentInputItem);
+        }
+        return items;
+      }
       case 'tool':
-        return {
+        return [{
           type: 'function_call_result' as const,
           callId: msg.tool_call_id,
-          name: '',
+          name: toolCallNames.get(msg.tool_call_id) ?? '',
           status: 'completed' as const,
           output: contentText,
-        } as AgentInputItem;
+        } as AgentInputItem];
       case 'function':
-        return {
+        return [{
           type: 'function_call_result' as const,
           callId: msg.name,
           name: msg.name,
           status: 'completed' as const,
           output: msg.content,
-        } as AgentInputItem;
+        } as AgentInputItem];
       default:
-        return {
+        return [{
           role: 'user' as const,
           content: contentText,
-        } as AgentInputItem;
+        } as AgentInputItem];
     }
   });
 }
 
+export class UnsupportedResponseFormatError extends Error {
+  name = 'UnsupportedResponseFormatError';
+}
+
+/**
+ * Convert a chat completion `response_format` into an agent output type. The AI SDK model
+ * adapter only accepts JSON schema output types whose root is an object schema.
+ */
+export function convertResponseFormatToOutputType(responseFormat?: ResponseFormat): 'text' | JsonSchemaDefinition {
+  if (!responseFormat || responseFormat.type === 'text') return 'text';
+
+  if (responseFormat.type === 'json_object') {
+    return {
+      type: 'json_schema',
+      name: 'json_object',
+      strict: false,
+      schema: { type: 'object', properties: {}, required: [], additionalProperties: true },
+    };
+  }
+
+  if (responseFormat.type !== 'json_schema') {
+    throw new UnsupportedResponseFormatError(`Unsupported response_format type '${(responseFormat as { type: string }).type}'`);
+  }
+
+  const { name, schema, strict = false } = responseFormat.json_schema ?? {};
+  if (!name || !/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+    throw new UnsupportedResponseFormatError("response_format.json_schema.name is required and may only contain a-z, A-Z, 0-9, underscores and dashes (max 64 characters)");
+  }
+  const jsonSchema = schema as Record<string, any> | undefined;
+  if (!jsonSchema || jsonSchema.type !== 'object' || typeof jsonSchema.properties !== 'object') {
+    throw new UnsupportedResponseFormatError("response_format.json_schema.schema must be a JSON schema with type 'object' and properties at its root");
+  }
+
+  return {
+    type: 'json_schema',
+    name,
+    strict,
+    schema: {
+      ...jsonSchema,
+      type: 'object',
+      properties: jsonSchema.properties,
+      required: jsonSchema.required ?? [],
+      additionalProperties: jsonSchema.additionalProperties ?? !strict,
+    } as JsonSchemaDefinition['schema'],
+  };
+}
+
+const VAULT_FILE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+// Vault files can be referenced as `vault://path/to/file.png` or with an `obsidian://open?file=` link
+function getVaultPathFromUrl(url: string): string | undefined {
+  if (url.startsWith('vault://')) {
+    return decodeURIComponent(url.slice('vault://'.length));
+  }
+  if (url.startsWith('obsidian://open')) {
+    try {
+      return new URL(url).searchParams.get('file') ?? undefined;
+    } catch {
+      throw new InputContentError(`Invalid Obsidian URL: ${url}`);
+    }
+  }
+  return undefined;
+}
+
+async function readVaultFileAsDataUrl(plugin: ObsidianAgentsServer, agentSettings: AgentSettings, path: string): Promise<string> {
+  if (!isPathAllowed(agentSettings, path)) {
+    throw new InputContentError(`Agent '${agentSettings.name}' is not allowed to access ${path}`);
+  }
+  const file = plugin.app.vault.getFileByPath(path);
+  const mimeType = file ? VAULT_FILE_MIME_TYPES[file.extension.toLowerCase()] : undefined;
+  if (!file) {
+    throw new InputContentError(`Vault file not found: ${path}`);
+  }
+  if (!mimeType) {
+    throw new InputContentError(`Unsupported vault file type: ${path}`);
+  }
+  return `data:${mimeType};base64,${arrayBufferToBase64(await plugin.app.vault.readBinary(file))}`;
+}
+
+/**
+ * Replace vault-local image URLs in user messages with data URLs read from the vault,
+ * respecting the agent's included and excluded folders.
+ */
+export async function resolveVaultInputUrls(plugin: ObsidianAgentsServer, agentSettings: AgentSettings, items: AgentInputItem[]): Promise<AgentInputItem[]> {
+  return Promise.all(items.map(async (item) => {
+    if (!('role' in item) || item.role !== 'user' || typeof item.content === 'string') return item;
+    const content = await Promise.all(item.content.map(async (part) => {
+      if (part.type === 'input_image' && typeof part.image === 'string') {
+        const path = getVaultPathFromUrl(part.image);
+        return path ? { ...part, image: await readVaultFileAsDataUrl(plugin, agentSettings, path) } : part;
+      }
+      return part;
+    }));
+    return { ...item, content };
+  }));
+}
+
+/**
+ * Make sure an agent's model accepts the images in its input before the run starts,
+ * rather than failing inside the provider.
+ */
+export function checkInputModalities(agentSettings: AgentSettings, items: AgentInputItem[]) {
+  const modalities = agentSettings.inputModalities ?? [];
+  for (const item of items) {
+    if (!('role' in item) || item.role !== 'user' || typeof item.content === 'string') continue;
+    for (const part of item.content) {
+      if (part.type === 'input_image' && !modalities.includes('image')) {
+        throw new InputContentError(`Agent '${agentSettings.name}' does not accept image input. Enable image input in its settings if its model supports vision.`);
+      }
+      // The AI SDK model adapter rejects file inputs for every provider
+      if (part.type === 'input_file') {
+        throw new InputContentError('File inputs are not supported, send the file content as text or images instead.');
+      }
+    }
+  }
+}
+
+/**
+ * Model settings requested by a client for a single run. They only apply when the agent allows
+ * request overrides, and are clamped to the agent's limits instead of being rejected.
+ */
+export function getRequestModelSettings(
+  agentModelSettings: AgentModelSettings | undefined,
+  request: { temperature?: number | null, topP?: number | null, maxTokens?: number | null },
+): Pick<ModelSettings, 'temperature' | 'topP' | 'maxTokens'> {
+  if (!agentModelSettings?.allowRequestOverrides) return {};
+  const maxTemperature = agentModelSettings.maxRequestTemperature ?? 2;
+  const maxTokens = agentModelSettings.maxRequestTokens ?? agentModelSettings.maxTokens;
+  return {
+    ...(typeof request.temperature === 'number' && { temperature: Math.min(Math.max(request.temperature, 0), maxTemperature) }),
+    ...(typeof request.topP === 'number' && { topP: Math.min(Math.max(request.topP, 0), 1) }),
+    ...(typeof request.maxTokens === 'number' && { maxTokens: maxTokens ? Math.min(request.maxTokens, maxTokens) : request.maxTokens }),
+  };
+}
+
+// Convert run interruptions for client tools into chat completion tool calls
+function getClientToolCalls(result: RunResult<any, any> | StreamedRunResult<any, any>): FunctionToolCall[] {
+  return result.interruptions
+    .map(interruption => interruption.rawItem)
+    .filter((rawItem): rawItem is protocol.FunctionCallItem => rawItem.type === 'function_call')
+    .map(rawItem => ({
+      id: rawItem.callId,
+      type: 'function' as const,
+      function: {
+        name: rawItem.name,
+        arguments: rawItem.arguments,
+      },
+    }));
+}
+
 // Convert Agent SDK RunResult to OpenAI Chat Completion Response
+/**
+ * The provider and model that served a run when the agent runs on a model chain,
+ * which differs from the agent's primary model after a fallback.
+ */
+export function getSystemFingerprint(result: RunResult<any, any> | StreamedRunResult<any, any>): string | undefined {
+  const model = result.lastAgent?.model;
+  return model instanceof ModelChain ? model.usedModel : undefined;
+}
+
 export function convertRunResultToCompletion(
-  result: RunResult<any, any>,
+  result: RunResult<any, any> | StreamedRunResult<any, any>,
   model: string,
 ): CreateChatCompletionResponse {
   const outputItems = result.output || [];
@@ -92,6 +324,13 @@ export function convertRunResultToCompletion(
     }
   }
 
+  // Structured output types are parsed by the SDK, so serialize the parsed value to return normalized JSON
+  if (result.finalOutput !== undefined && typeof result.finalOutput !== 'string') {
+    content = JSON.stringify(result.finalOutput);
+  }
+
+  const toolCalls = getClientToolCalls(result);
+
   // Build the choice
   const choice: ChatCompletionChoice = {
     index: 0,
@@ -99,47 +338,93 @@ export function convertRunResultToCompletion(
       role: 'assistant',
       content: content || null,
       refusal: null,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
     },
-    finish_reason: 'stop',
+    finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
     logprobs: null,
   };
 
   // Build the response
   const response: CreateChatCompletionResponse = {
-    id: result.lastResponseId || `chatcmpl-${Date.now()}`,
+    id: `chatcmpl-${nanoid()}`,
     object: 'chat.completion',
     created: Math.floor(Date.now() / 1000),
     model: model,
+    system_fingerprint: getSystemFingerprint(result),
     choices: [choice],
-    usage: {
-      prompt_tokens: 0, // Agent SDK doesn't provide token counts
-      completion_tokens: 0,
-      total_tokens: 0,
-      prompt_tokens_details: {
-        cached_tokens: 0,
-        audio_tokens: 0,
-      },
-      completion_tokens_details: {
-        reasoning_tokens: 0,
-        audio_tokens: 0,
-        accepted_prediction_tokens: 0,
-        rejected_prediction_tokens: 0,
-      },
-    },
+    usage: convertRunUsageToCompletionUsage(result.state._context.usage),
   };
 
   return response;
 }
 
+/**
+ * Completion without output, stored for a non-streaming run the client cancelled before it produced a result.
+ */
+export function createCancelledCompletion(model: string): CreateChatCompletionResponse {
+  return {
+    id: `chatcmpl-${nanoid()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [],
+    usage: convertRunUsageToCompletionUsage(new RunUsage()),
+  };
+}
+
+// Sum a token detail field across the per-request detail entries of a run
+function sumTokenDetails(details: Array<Record<string, number>>, key: string): number {
+  return details.reduce((total, entry) => total + (entry?.[key] ?? 0), 0);
+}
+
+export function convertRunUsageToCompletionUsage(usage: RunUsage): Usage {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    prompt_tokens_details: {
+      cached_tokens: sumTokenDetails(usage.inputTokensDetails, 'cached_tokens'),
+      audio_tokens: 0,
+    },
+    completion_tokens_details: {
+      reasoning_tokens: sumTokenDetails(usage.outputTokensDetails, 'reasoning_tokens'),
+      audio_tokens: 0,
+      accepted_prediction_tokens: 0,
+      rejected_prediction_tokens: 0,
+    },
+  };
+}
+
+export function convertRunUsageToResponseUsage(usage: RunUsage): ResponseUsage {
+  return {
+    input_tokens: usage.inputTokens,
+    input_tokens_details: {
+      cached_tokens: sumTokenDetails(usage.inputTokensDetails, 'cached_tokens'),
+    },
+    output_tokens: usage.outputTokens,
+    output_tokens_details: {
+      reasoning_tokens: sumTokenDetails(usage.outputTokensDetails, 'reasoning_tokens'),
+    },
+    total_tokens: usage.totalTokens,
+  };
+}
+
+// Maximum number of characters of a tool result included in an `x-tool-events` event
+const TOOL_EVENT_OUTPUT_LIMIT = 1000;
+
 export async function* convertStreamToChunks(
   stream: StreamedRunResult<any, any>,
   model: string,
-): AsyncGenerator<ChatCompletionChunk> {
-  const id = `chatcmpl-${Date.now()}`;
+  {
+    id = `chatcmpl-${nanoid()}`,
+    clientToolNames = [],
+    includeUsage = false,
+    toolEventsMode = 'markers',
+  }: { id?: string, clientToolNames?: string[], includeUsage?: boolean, toolEventsMode?: ToolEventsMode } = {},
+): AsyncGenerator<ChatCompletionChunk | ToolActivityEvent> {
   const created = Math.floor(Date.now() / 1000);
 
   for await (const event of stream) {
-    console.log('event recorded, stream usage: ', JSON.parse(JSON.stringify(stream.state._context.usage)), stream.history, stream)
     // Handle text deltas from model
     if (event.type === 'raw_model_stream_event' && event.data?.type === 'output_text_delta') {
       yield {
@@ -147,6 +432,7 @@ export async function* convertStreamToChunks(
         object: 'chat.completion.chunk',
         created,
         model,
+        system_fingerprint: getSystemFingerprint(stream),
         choices: [{
           index: 0,
           delta: {
@@ -161,8 +447,41 @@ export async function* convertStreamToChunks(
     else if (event.type === 'run_item_stream_event') {
       const runEvent = event as any;
 
+      // Client tools are reported as tool_calls once the run stops
+      if (clientToolNames.includes(runEvent.item?.rawItem?.name)) {
+        continue;
+      }
+
+      if (toolEventsMode === 'events') {
+        if (runEvent.name === 'tool_called' && runEvent.item?.type === 'tool_call_item') {
+          yield {
+            id,
+            object: 'chat.completion.tool_event',
+            created,
+            model,
+            event: 'tool_called',
+            call_id: runEvent.item.rawItem?.callId ?? '',
+            name: runEvent.item.rawItem?.name || 'unknown',
+            arguments: runEvent.item.rawItem?.arguments ?? '',
+          };
+        } else if (runEvent.name === 'tool_output' && runEvent.item?.type === 'tool_call_output_item') {
+          const output = typeof runEvent.item.output === 'string' ? runEvent.item.output : JSON.stringify(runEvent.item.output) ?? '';
+          yield {
+            id,
+            object: 'chat.completion.tool_event',
+            created,
+            model,
+            event: 'tool_output',
+            call_id: runEvent.item.rawItem?.callId ?? '',
+            name: runEvent.item.rawItem?.name || 'unknown',
+            output: output.slice(0, TOOL_EVENT_OUTPUT_LIMIT),
+            output_truncated: output.length > TOOL_EVENT_OUTPUT_LIMIT,
+          };
+        }
+      }
+
       // Tool call initiated
-      if (runEvent.name === 'tool_called' && runEvent.item?.type === 'tool_call_item') {
+      else if (runEvent.name === 'tool_called' && runEvent.item?.type === 'tool_call_item') {
         const funcName = runEvent.item.rawItem?.name || 'unknown';
         // Check if it's a vault tool for a friendly label
         const vaultTool = Object.values(VAULT_TOOLS).find(vt => vt.id === funcName);
@@ -173,6 +492,7 @@ export async function* convertStreamToChunks(
           object: 'chat.completion.chunk',
           created,
           model,
+          system_fingerprint: getSystemFingerprint(stream),
           choices: [{
             index: 0,
             delta: {
@@ -196,6 +516,7 @@ export async function* convertStreamToChunks(
           object: 'chat.completion.chunk',
           created,
           model,
+          system_fingerprint: getSystemFingerprint(stream),
           choices: [{
             index: 0,
             delta: {
@@ -209,19 +530,236 @@ export async function* convertStreamToChunks(
     }
   }
 
-  // Log usage after stream completes
-  console.log('[Stream Complete] Final usage:', stream.state._context.usage);
+  const toolCalls = getClientToolCalls(stream);
+  if (toolCalls.length > 0) {
+    yield {
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      system_fingerprint: getSystemFingerprint(stream),
+      choices: [{
+        index: 0,
+        delta: {
+          tool_calls: toolCalls.map((toolCall, index) => ({ index, ...toolCall })),
+        },
+        finish_reason: null,
+        logprobs: null,
+      }],
+    };
+  }
 
   yield {
     id,
     object: 'chat.completion.chunk',
     created,
     model,
+    system_fingerprint: getSystemFingerprint(stream),
     choices: [{
       index: 0,
       delta: {},
-      finish_reason: 'stop',
+      finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
       logprobs: null,
     }],
   };
+
+  // With stream_options.include_usage the usage of the whole run is sent in a final chunk without choices
+  if (includeUsage) {
+    yield {
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      system_fingerprint: getSystemFingerprint(stream),
+      choices: [],
+      usage: convertRunUsageToCompletionUsage(stream.state._context.usage),
+    };
+  }
+}
+
+/**
+ * Convert Responses API input into agent input. The history of the previous response is passed
+ * so tool outputs answering calls made in an earlier response get the name of their call.
+ */
+export function convertResponseInputToAgentInput(input: CreateResponseBody["input"], history: AgentInputItem[] = []): AgentInputItem[] {
+  if (typeof input === 'string') {
+    return [{ role: 'user' as const, content: input }];
+  }
+
+  // Tool outputs only carry the call id, so track the names of the calls they answer
+  const toolCallNames = new Map<string, string>();
+  for (const item of history) {
+    if (item.type === 'function_call') toolCallNames.set(item.callId, item.name);
+  }
+
+  return input.map((item) => {
+    switch (item.type) {
+      case 'function_call':
+        toolCallNames.set(item.call_id, item.name);
+        return {
+          type: 'function_call' as const,
+          callId: item.call_id,
+          name: item.name,
+          arguments: item.arguments,
+          status: 'completed' as const,
+        } as AgentInputItem;
+      case 'function_call_output':
+        return {
+          type: 'function_call_result' as const,
+          callId: item.call_id,
+          name: toolCallNames.get(item.call_id) ?? '',
+          status: 'completed' as const,
+          output: item.output,
+        } as AgentInputItem;
+    }
+
+    if (item.role === 'user' && Array.isArray(item.content) && item.content.some(part => part.type === 'input_image' || part.type === 'input_file')) {
+      return {
+        role: 'user' as const,
+        content: item.content.map((part): UserContentItem => {
+          switch (part.type) {
+            case 'input_image':
+              if (!part.image_url) {
+                throw new InputContentError('Image inputs must include image_url, uploaded file ids are not supported');
+              }
+              return { type: 'input_image', image: part.image_url, detail: part.detail };
+            case 'input_file':
+              if (!part.file_data && !part.file_url) {
+                throw new InputContentError('File inputs must include file_data or file_url, uploaded file ids are not supported');
+              }
+              return { type: 'input_file', file: part.file_data ?? { url: part.file_url! }, filename: part.filename };
+            case 'refusal':
+              return { type: 'input_text', text: part.refusal };
+            default:
+              return { type: 'input_text', text: part.text };
+          }
+        }),
+      } as AgentInputItem;
+    }
+
+    const contentText = typeof item.content === 'string'
+      ? item.content
+      : item.content.map(part => part.type === 'input_text' || part.type === 'output_text' ? part.text : '').join('\n');
+
+    switch (item.role) {
+      case 'developer':
+      case 'system':
+        return {
+          role: 'system' as const,
+          content: contentText,
+        } as AgentInputItem;
+      case 'assistant':
+        return {
+          role: 'assistant' as const,
+          status: 'completed' as const,
+          content: contentText ? [{ type: 'output_text' as const, text: contentText }] : [],
+        } as AgentInputItem;
+      default:
+        return {
+          role: 'user' as const,
+          content: contentText,
+        } as AgentInputItem;
+    }
+  });
+}
+
+function convertOutputToResponseMessages(output: AgentOutputItem[]): ResponseOutputMessage[] {
+  return output
+    .filter((item: any) => item.role === 'assistant' && Array.isArray(item.content))
+    .map((item: any) => ({
+      id: `msg_${nanoid()}`,
+      type: 'message' as const,
+      role: 'assistant' as const,
+      status: 'completed' as const,
+      content: item.content
+        .filter((part: any) => part.type === 'output_text' || part.type === 'refusal')
+        .map((part: any) => part.type === 'refusal'
+          ? { type: 'refusal' as const, refusal: part.refusal }
+          : { type: 'output_text' as const, text: part.text, annotations: [] }),
+    }));
+}
+
+function getResponseOutputText(output: ResponseObject["output"]): string {
+  return output
+    .flatMap(item => item.type === 'message' ? item.content : [])
+    .map(part => part.type === 'output_text' ? part.text : '')
+    .join('');
+}
+
+// Convert Agent SDK RunResult to an OpenAI Responses API response
+export function convertRunResultToResponse(
+  result: RunResult<any, any>,
+  response: ResponseObject,
+): ResponseObject {
+  const output = convertOutputToResponseMessages(result.output || []);
+  return {
+    ...response,
+    status: 'completed',
+    output,
+    output_text: getResponseOutputText(output),
+    usage: convertRunUsageToResponseUsage(result.state._context.usage),
+  };
+}
+
+/**
+ * Convert an Agent SDK stream into Responses API stream events. Text produced between
+ * tool calls is emitted as separate output messages. `response` is updated in place so
+ * it holds the final state once the generator finishes.
+ */
+export async function* convertStreamToResponseEvents(
+  stream: StreamedRunResult<any, any>,
+  response: ResponseObject,
+): AsyncGenerator<ResponseStreamEvent> {
+  let sequenceNumber = 0;
+  let openMessage: { item: ResponseOutputMessage, outputIndex: number, text: string } | undefined;
+
+  function* closeMessage(): Generator<ResponseStreamEvent> {
+    if (!openMessage) return;
+    const { item, outputIndex, text } = openMessage;
+    const part = { type: 'output_text' as const, text, annotations: [] };
+    item.content = [part];
+    item.status = 'completed';
+    yield { type: 'response.output_text.done', sequence_number: sequenceNumber++, item_id: item.id, output_index: outputIndex, content_index: 0, text };
+    yield { type: 'response.content_part.done', sequence_number: sequenceNumber++, item_id: item.id, output_index: outputIndex, content_index: 0, part };
+    yield { type: 'response.output_item.done', sequence_number: sequenceNumber++, output_index: outputIndex, item };
+    openMessage = undefined;
+  }
+
+  yield { type: 'response.created', sequence_number: sequenceNumber++, response: { ...response } };
+  yield { type: 'response.in_progress', sequence_number: sequenceNumber++, response: { ...response } };
+
+  try {
+    for await (const event of stream) {
+      if (event.type === 'raw_model_stream_event' && event.data?.type === 'output_text_delta') {
+        if (!openMessage) {
+          const item: ResponseOutputMessage = { id: `msg_${nanoid()}`, type: 'message', role: 'assistant', status: 'in_progress', content: [] };
+          openMessage = { item, outputIndex: response.output.length, text: '' };
+          response.output.push(item);
+          yield { type: 'response.output_item.added', sequence_number: sequenceNumber++, output_index: openMessage.outputIndex, item };
+          yield { type: 'response.content_part.added', sequence_number: sequenceNumber++, item_id: item.id, output_index: openMessage.outputIndex, content_index: 0, part: { type: 'output_text', text: '', annotations: [] } };
+        }
+        openMessage.text += event.data.delta || '';
+        yield { type: 'response.output_text.delta', sequence_number: sequenceNumber++, item_id: openMessage.item.id, output_index: openMessage.outputIndex, content_index: 0, delta: event.data.delta || '' };
+      }
+      // Tool calls end the current model turn, so the next text starts a new message
+      else if (event.type === 'run_item_stream_event' && event.name === 'tool_called') {
+        yield* closeMessage();
+      }
+    }
+    yield* closeMessage();
+    response.output_text = getResponseOutputText(response.output);
+    response.usage = convertRunUsageToResponseUsage(stream.state._context.usage);
+    // The stream ends early when the client disconnects, there is nobody left to send a completed event to
+    if (stream.cancelled) {
+      response.status = 'cancelled';
+      return;
+    }
+    response.status = 'completed';
+    yield { type: 'response.completed', sequence_number: sequenceNumber++, response };
+  } catch (err: any) {
+    yield* closeMessage();
+    response.status = 'failed';
+    response.error = { code: 'server_error', message: err?.message ?? 'Internal Server Error' };
+    yield { type: 'response.failed', sequence_number: sequenceNumber++, response };
+  }
 }
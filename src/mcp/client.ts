@@ -0,0 +1,106 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { type CallToolResult, type ServerCapabilities, ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+
+/**
+ * Requests shared by the MCP clients of every transport. Subclasses open their transport
+ * and connect the client created by `createClient`.
+ */
+export abstract class BaseMCPClient {
+	protected client?: Client
+	protected config: any
+	// Set by the MCP manager once connected, not called when the connection is closed on purpose
+	public onClose?: () => void
+	public onError?: (err: Error) => void
+	// Called when the server announced its tools changed, after the cached list was dropped
+	public onToolsChanged?: () => void
+	public tools: any[] = []
+	protected toolsCached = false
+
+	constructor(config: any) {
+		this.config = config
+	}
+
+	get name() {
+		return this.config.name
+	}
+
+	// Capabilities the server announced when the client initialized
+	protected get capabilities(): ServerCapabilities | undefined {
+		return this.client?.getServerCapabilities()
+	}
+
+	protected createClient() {
+		const client = new Client(
+			{ name: 'obsidian-agents-server', version: '1.0.0' },
+			{ capabilities: {} }
+		)
+		client.onclose = () => this.onClose?.()
+		client.onerror = (err) => this.onError?.(err)
+		client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+			this.toolsCached = false
+			this.onToolsChanged?.()
+		})
+		this.client = client
+		return client
+	}
+
+	protected get connectedClient() {
+		if (!this.client) throw new Error('Client not connected')
+		return this.client
+	}
+
+	async close() {
+		if (this.client) {
+			this.client.onclose = undefined
+			this.client.onerror = undefined
+		}
+		await this.client?.close()
+		this.toolsCached = false
+		this.client = undefined
+	}
+
+	async ping() {
+		await this.connectedClient.ping()
+	}
+
+	async listTools() {
+		const client = this.connectedClient
+		// Servers may only offer resources or prompts
+		if (!this.capabilities?.tools) return []
+		if (this.config.cacheToolsList && this.toolsCached) return this.tools
+		const response = await client.listTools()
+		this.tools = response.tools
+		this.toolsCached = true
+		return response.tools
+	}
+
+	async callTool(name: string, args: Record<string, unknown> | null) {
+		const result = await this.connectedClient.callTool({ name, arguments: args || {} })
+		return result as CallToolResult
+	}
+
+	// Servers that lack a capability answer its requests with method not found, they have nothing to list
+	async listResources() {
+		const client = this.connectedClient
+		if (!this.capabilities?.resources) return []
+		const response = await client.listResources()
+		return response.resources
+	}
+
+	async readResource(uri: string) {
+		const result = await this.connectedClient.readResource({ uri })
+		return result.contents
+	}
+
+	async listPrompts() {
+		const client = this.connectedClient
+		if (!this.capabilities?.prompts) return []
+		const response = await client.listPrompts()
+		return response.prompts
+	}
+
+	async getPrompt(name: string, args?: Record<string, string>) {
+		const result = await this.connectedClient.getPrompt({ name, arguments: args })
+		return result.messages
+	}
+}
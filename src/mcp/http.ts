@@ -0,0 +1,84 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { type ServerCapabilities } from "@modelcontextprotocol/sdk/types.js"
+import { Platform } from "obsidian"
+import { nodeFetch } from "~/models/providers/nodeFetch"
+import { BaseMCPClient } from "./client"
+
+// Session of a Streamable HTTP server, kept so a reconnect continues it instead of initializing a new one
+export interface MCPSession {
+	sessionId: string
+	protocolVersion?: string
+	// A resumed client skips initialization, so the capabilities the server announced are kept with the session
+	capabilities?: ServerCapabilities
+}
+
+export class SimpleMCPServerStreamableHTTP extends BaseMCPClient {
+	private transport?: StreamableHTTPClientTransport
+	private serverCapabilities?: ServerCapabilities
+
+	get session(): MCPSession | undefined {
+		if (!this.transport?.sessionId) return undefined
+		return { sessionId: this.transport.sessionId, protocolVersion: this.transport.protocolVersion, capabilities: this.serverCapabilities }
+	}
+
+	// A resumed client skips initialization, so it relies on the capabilities kept with the session
+	protected get capabilities() {
+		return this.serverCapabilities
+	}
+
+	async connect() {
+		const session = this.config.session as MCPSession | undefined
+		if (session) {
+			try {
+				await this.open(session)
+				// Check the server still knows the session
+				await this.client?.ping()
+				console.log(`[MCP] Resumed session ${session.sessionId} with ${this.config.name}`)
+				return
+			} catch (err) {
+				console.warn(`[MCP] Could not resume session with ${this.config.name}, starting a new one:`, err)
+				await this.close()
+			}
+		}
+		await this.open()
+	}
+
+	private async open(session?: MCPSession) {
+		this.transport = new StreamableHTTPClientTransport(new URL(this.config.url), {
+			requestInit: { headers: this.config.headers ?? {} },
+			sessionId: session?.sessionId,
+			// Node's http client isn't subject to CORS, which remote servers rarely allow for app://obsidian.md
+			fetch: Platform.isDesktopApp ? nodeFetch : undefined,
+			// Interrupted response streams are resumed from the last event id they delivered
+			reconnectionOptions: {
+				initialReconnectionDelay: 1000,
+				maxReconnectionDelay: 30000,
+				reconnectionDelayGrowFactor: 1.5,
+				maxRetries: 5
+			}
+		})
+		if (session?.protocolVersion) {
+			this.transport.setProtocolVersion(session.protocolVersion)
+		}
+
+		const client = this.createClient()
+		await client.connect(this.transport)
+		this.serverCapabilities = client.getServerCapabilities() ?? session?.capabilities
+	}
+
+	// Closes the connection but leaves the session open on the server so it can be resumed
+	async close() {
+		await super.close()
+		this.transport = undefined
+	}
+
+	// Ends the session on the server, servers that don't support it answer 405 which is ignored
+	async terminate() {
+		try {
+			await this.transport?.terminateSession()
+		} catch (err) {
+			console.warn(`[MCP] Failed to terminate session with ${this.config.name}:`, err)
+		}
+		await this.close()
+	}
+}
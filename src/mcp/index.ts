@@ -1,10 +1,14 @@
 // Import MCP types and utilities
 import { tool, Tool } from "@openai/agents"
+import { z } from "zod"
 import ObsidianAgentsServer from ".."
 import { MCPServerConfig } from "~/settings/types"
 import { AgentSettings } from "~/agents/types"
 import { SimpleMCPServerStdio } from "./stdio"
 import { SimpleMCPServerSSE } from "./sse"
+import { MCPSession, SimpleMCPServerStreamableHTTP } from "./http"
+import { convertToolResult } from "./toolResult"
+import { type CallToolResult } from "@modelcontextprotocol/sdk/types.js"
 
 // MCP Tool types from specification
 export interface MCPTool {
@@ -18,17 +22,63 @@ export interface MCPTool {
 	}
 }
 
-export interface MCPServer {
+export type MCPClient = SimpleMCPServerStdio | SimpleMCPServerSSE | SimpleMCPServerStreamableHTTP
+
+interface MCPServerState {
 	id: string
-	status: "connected" | "error" | "disabled"
-	server: SimpleMCPServerStdio | SimpleMCPServerSSE
 	lastChecked: number
 	error?: string
+	// Streamable HTTP servers only
+	sessionId?: string
+	// Set while a server that failed or lost its connection waits for the next reconnect attempt
+	reconnectAttempts?: number
+	nextRetryAt?: number
+}
+
+// Only connected servers have a client, checking the status narrows it
+export type MCPServer = MCPServerState & (
+	| { status: "connected", server: MCPClient }
+	| { status: "error" | "disabled", server?: undefined }
+)
+
+// Tool of an agent built from an MCP server, named after the server so name conflicts can be reported
+export interface MCPAgentTool {
+	tool: Tool
+	serverName: string
 }
 
+// Tools a server added or removed since it connected, shown in the agents' settings until dismissed
+export interface MCPToolChanges {
+	added: string[]
+	removed: string[]
+	changedAt: number
+}
+
+// Triggered on the plugin's events whenever the status or the tools of a server change
+export const MCP_SERVERS_CHANGED_EVENT = "mcp-servers-changed"
+
+const CONNECT_TIMEOUT = 5000
+// Connected servers are pinged this often to notice connections that died silently
+const HEALTH_CHECK_INTERVAL = 30 * 1000
+// Reconnect attempts back off exponentially from the base delay up to the maximum
+const RECONNECT_BASE_DELAY = 1000
+const MAX_RECONNECT_DELAY = 5 * 60 * 1000
+// Servers often announce several tool changes in a row, they're handled together once they settle
+const TOOLS_CHANGED_DEBOUNCE = 500
+
 export class MCPManager {
 	public servers: Map<string, MCPServer> = new Map()
 	private plugin: ObsidianAgentsServer
+	// Streamable HTTP sessions by server id, outliving the connections so reconnects can resume them
+	private sessions: Map<string, MCPSession> = new Map()
+	private reconnectTimers: Map<string, number> = new Map()
+	private healthCheckID?: number
+	// Incremented by closeAll, connections finishing after it belong to servers that were closed
+	private generation = 0
+	// Tool names of each server as last listed, to tell which tools a list_changed notification added or removed
+	private toolNames: Map<string, string[]> = new Map()
+	private toolChanges: Map<string, MCPToolChanges> = new Map()
+	private toolsChangedTimers: Map<string, number> = new Map()
 
 	constructor(plugin: ObsidianAgentsServer) {
 		this.plugin = plugin
@@ -38,56 +88,213 @@ export class MCPManager {
 		return this.servers.get(id)
 	}
 
+	getToolChanges(id: string): MCPToolChanges | undefined {
+		return this.toolChanges.get(id)
+	}
+
+	dismissToolChanges(id: string) {
+		this.toolChanges.delete(id)
+		this.plugin.events.trigger(MCP_SERVERS_CHANGED_EVENT)
+	}
+
+	private updateServer(mcpServer: MCPServer) {
+		this.servers.set(mcpServer.id, mcpServer)
+		this.plugin.events.trigger(MCP_SERVERS_CHANGED_EVENT)
+	}
+
 	async initializeServers(): Promise<void> {
-		await this.closeAll()
+		await this.closeAll({ keepSessions: true })
 
 		for (const config of this.plugin.settings.mcpServers) {
 			if (!config.enabled) {
-				this.servers.set(config.id, {
+				this.updateServer({
 					id: config.id,
 					status: "disabled",
-					server: null as any, // No server instance for disabled servers
 					lastChecked: Date.now()
 				})
 				continue
 			}
 
 			try {
-				const server = await this.createServer(config)
-
-				// Add timeout to prevent hanging offline (5 seconds)
-				const connectWithTimeout = Promise.race([
-					server.connect(),
-					new Promise((_, reject) =>
-						setTimeout(() => reject(new Error('Connection timeout - possibly offline')), 5000)
-					)
-				])
-
-				await connectWithTimeout
-
-				this.servers.set(config.id, {
-					id: config.id,
-					status: "connected",
-					server,
-					lastChecked: Date.now()
-				})
+				const server = await this.connectServer(config)
+				this.setConnected(config, server)
 				console.log(`[MCP] Connected to ${config.name}`)
 			} catch (err) {
 				const errorMessage = err instanceof Error ? err.message : String(err)
 				console.warn(`[MCP] Failed to connect to ${config.name}: ${errorMessage}`)
-				this.servers.set(config.id, {
-					id: config.id,
-					status: "error",
-					server: null as any,
-					lastChecked: Date.now(),
-					error: errorMessage
-				})
+				this.scheduleReconnect(config.id, 0, errorMessage)
 			}
 		}
 
+		this.healthCheckID = this.plugin.registerInterval(window.setInterval(() => this.checkServers(), HEALTH_CHECK_INTERVAL))
+
 		console.log(`[MCP] Initialization complete. Connected: ${Array.from(this.servers.values()).filter(s => s.status === 'connected').length}/${this.plugin.settings.mcpServers.length}`)
 	}
 
+	private async connectServer(config: MCPServerConfig) {
+		const server = await this.createServer(config)
+
+		// Add timeout to prevent hanging offline
+		const connectWithTimeout = Promise.race([
+			server.connect(),
+			new Promise((_, reject) =>
+				setTimeout(() => reject(new Error('Connection timeout - possibly offline')), CONNECT_TIMEOUT)
+			)
+		])
+
+		try {
+			await connectWithTimeout
+		} catch (err) {
+			// Don't leave a process or connection behind when the connection timed out
+			server.close().catch(() => { })
+			throw err
+		}
+		return server
+	}
+
+	private setConnected(config: MCPServerConfig, server: MCPClient) {
+		const session = server instanceof SimpleMCPServerStreamableHTTP ? server.session : undefined
+		if (session) this.sessions.set(config.id, session)
+		// A crashed stdio process closes its transport, SSE and HTTP connections report errors that are checked with a ping
+		server.onClose = () => this.handleDisconnect(config.id, new Error("Connection closed"))
+		server.onError = () => this.checkServer(config.id)
+		server.onToolsChanged = () => this.scheduleToolsRefresh(config.id)
+		server.listTools()
+			.then(tools => this.toolNames.set(config.id, tools.map(t => t.name)))
+			.catch(err => console.warn(`[MCP] Failed to list tools of ${config.name}:`, err))
+		this.updateServer({
+			id: config.id,
+			status: "connected",
+			server,
+			lastChecked: Date.now(),
+			sessionId: session?.sessionId
+		})
+	}
+
+	private checkServers() {
+		for (const mcpServer of this.servers.values()) {
+			if (mcpServer.status === "connected") this.checkServer(mcpServer.id)
+		}
+	}
+
+	private async checkServer(id: string) {
+		const mcpServer = this.servers.get(id)
+		if (!mcpServer || mcpServer.status !== "connected") return
+		try {
+			await Promise.race([
+				mcpServer.server.ping(),
+				new Promise((_, reject) =>
+					setTimeout(() => reject(new Error('Health check timed out')), CONNECT_TIMEOUT)
+				)
+			])
+			if (this.servers.get(id) === mcpServer) mcpServer.lastChecked = Date.now()
+		} catch (err) {
+			this.handleDisconnect(id, err)
+		}
+	}
+
+	private handleDisconnect(id: string, err: unknown) {
+		const mcpServer = this.servers.get(id)
+		// Only the first report of a lost connection starts reconnecting
+		if (!mcpServer || mcpServer.status !== "connected") return
+		const errorMessage = err instanceof Error ? err.message : String(err)
+		const name = this.plugin.settings.mcpServers.find(c => c.id === id)?.name ?? id
+		console.warn(`[MCP] Lost connection to ${name}: ${errorMessage}`)
+		mcpServer.server.close().catch(() => { })
+		this.scheduleReconnect(id, 0, errorMessage)
+	}
+
+	private scheduleReconnect(id: string, attempt: number, errorMessage: string) {
+		const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, MAX_RECONNECT_DELAY)
+		const generation = this.generation
+		this.updateServer({
+			id,
+			status: "error",
+			lastChecked: Date.now(),
+			error: errorMessage,
+			reconnectAttempts: attempt,
+			nextRetryAt: Date.now() + delay
+		})
+
+		this.reconnectTimers.set(id, window.setTimeout(async () => {
+			this.reconnectTimers.delete(id)
+			const config = this.plugin.settings.mcpServers.find(c => c.id === id)
+			if (!config?.enabled || generation !== this.generation) return
+
+			let server: MCPClient
+			try {
+				server = await this.connectServer(config)
+			} catch (err) {
+				if (generation !== this.generation) return
+				const message = err instanceof Error ? err.message : String(err)
+				console.warn(`[MCP] Reconnect attempt ${attempt + 1} to ${config.name} failed: ${message}`)
+				this.scheduleReconnect(id, attempt + 1, message)
+				return
+			}
+
+			if (generation !== this.generation) {
+				await server.close()
+				return
+			}
+			this.setConnected(config, server)
+			console.log(`[MCP] Reconnected to ${config.name}`)
+
+			// Agents built while the server was down lack its tools, and the others hold the closed client
+			await this.rebuildAgentsUsing(id)
+		}, delay))
+	}
+
+	private async rebuildAgentsUsing(serverID: string) {
+		const agentIDs = this.plugin.settings.agents
+			.filter(a => a.mcpTools.some(t => t.enabled && t.serverID === serverID))
+			.map(a => a.id)
+		if (agentIDs.length > 0) await this.plugin.rebuildAgents(agentIDs)
+	}
+
+	private scheduleToolsRefresh(id: string) {
+		window.clearTimeout(this.toolsChangedTimers.get(id))
+		this.toolsChangedTimers.set(id, window.setTimeout(() => {
+			this.toolsChangedTimers.delete(id)
+			this.refreshTools(id)
+		}, TOOLS_CHANGED_DEBOUNCE))
+	}
+
+	/**
+	 * Re-list the tools of a server that announced they changed, record which tools were added or removed
+	 * and rebuild the agents using the server so their tool arrays match it again.
+	 */
+	private async refreshTools(id: string) {
+		const mcpServer = this.servers.get(id)
+		if (!mcpServer || mcpServer.status !== "connected") return
+		const name = this.plugin.settings.mcpServers.find(c => c.id === id)?.name ?? id
+
+		let toolNames: string[]
+		try {
+			toolNames = (await mcpServer.server.listTools()).map(t => t.name)
+		} catch (err) {
+			console.error(`[MCP] Failed to refresh the tools of ${name}:`, err)
+			return
+		}
+
+		const previousNames = this.toolNames.get(id) ?? []
+		this.toolNames.set(id, toolNames)
+		const added = toolNames.filter(t => !previousNames.includes(t))
+		const removed = previousNames.filter(t => !toolNames.includes(t))
+		if (added.length === 0 && removed.length === 0) return
+
+		// Changes add up until they're dismissed, a tool removed and added again is no change
+		const changes = this.toolChanges.get(id) ?? { added: [], removed: [], changedAt: 0 }
+		this.toolChanges.set(id, {
+			added: [...changes.added.filter(t => !removed.includes(t)), ...added.filter(t => !changes.removed.includes(t))],
+			removed: [...changes.removed.filter(t => !added.includes(t)), ...removed.filter(t => !changes.added.includes(t))],
+			changedAt: Date.now()
+		})
+		console.log(`[MCP] Tools of ${name} changed. Added: ${added.join(", ") || "none"}. Removed: ${removed.join(", ") || "none"}`)
+
+		await this.rebuildAgentsUsing(id)
+		this.plugin.events.trigger(MCP_SERVERS_CHANGED_EVENT)
+	}
+
 	private convertStdioArgs(args: string) {
 		return args.split(",").map(a => a.trim()).filter(Boolean)
 	}
@@ -106,7 +313,14 @@ export class MCPManager {
 		return result
 	}
 
-	private async createServer(config: MCPServerConfig): Promise<SimpleMCPServerStdio | SimpleMCPServerSSE> {
+	private convertHeaderArrayToRecord(headerArray?: { name: string, value: string }[]): Record<string, string> {
+		return (headerArray ?? []).reduce((acc, { name, value }) => {
+			if (name) acc[name] = value
+			return acc
+		}, {} as Record<string, string>)
+	}
+
+	private async createServer(config: MCPServerConfig): Promise<MCPClient> {
 		switch (config.type) {
 			case "stdio":
 				return new SimpleMCPServerStdio({
@@ -122,6 +336,14 @@ export class MCPManager {
 					name: config.name,
 					cacheToolsList: config.cacheToolsList
 				})
+			case "http":
+				return new SimpleMCPServerStreamableHTTP({
+					url: config.url,
+					headers: this.convertHeaderArrayToRecord(config.headers),
+					name: config.name,
+					cacheToolsList: config.cacheToolsList,
+					session: config.resumeSession !== false ? this.sessions.get(config.id) : undefined
+				})
 		}
 	}
 
@@ -138,8 +360,17 @@ export class MCPManager {
 		}
 	}
 
-	async getToolsForAgent(agentSettings: AgentSettings): Promise<Tool[]> {
-		const tools: Tool[] = []
+	/**
+	 * Name an MCP tool is registered under for an agent: the agent's alias for it, or the tool name
+	 * with the server's prefix.
+	 */
+	getAgentToolName(config: MCPServerConfig | undefined, toolName: string, alias?: string) {
+		if (alias) return alias
+		return config?.toolPrefix ? `${config.toolPrefix}_${toolName}` : toolName
+	}
+
+	async getToolsForAgent(agentSettings: AgentSettings): Promise<MCPAgentTool[]> {
+		const tools: MCPAgentTool[] = []
 
 		for (const toolConfig of agentSettings.mcpTools) {
 			if (!toolConfig.enabled || toolConfig.type.id !== "mcp") continue;
@@ -155,50 +386,128 @@ export class MCPManager {
 			}
 
 			const server = mcpServer.server
+			const serverConfig = this.plugin.settings.mcpServers.find(c => c.id === toolConfig.serverID)
+			const serverName = serverConfig?.name ?? toolConfig.serverID
+			const acceptsImages = agentSettings.inputModalities?.includes("image") ?? false
 
 			try {
 				const mcpTools = await server.listTools()
 				const toolsToConvert = mcpTools.filter(t => toolConfig.toolIDs.includes(t.name))
 
 				for (const mcpTool of toolsToConvert) {
-					tools.push(
-						tool({
-							name: mcpTool.name,
-							description: mcpTool.description || "",
+					const override = toolConfig.toolOverrides?.[mcpTool.name]
+					tools.push({
+						serverName,
+						tool: tool({
+							name: this.getAgentToolName(serverConfig, mcpTool.name, override?.alias),
+							description: override?.description || mcpTool.description || "",
 							parameters: mcpTool.inputSchema as any,
 							strict: false, // Use non-strict mode for JSON Schema
 							async execute(args: Record<string, unknown>) {
+								let result: CallToolResult
 								try {
-									const result = await server.callTool(mcpTool.name, args)
-
-									// MCP tools return content array - extract text from first content item
-									if (Array.isArray(result)) {
-										// Result is MCP content array: [{ type: "text", text: "..." }]
-										const textContent = result.find(item => item.type === 'text')
-										if (textContent && textContent.text) {
-											const extractedText = textContent.text
-											return extractedText
-										}
-									}
-
-									// Fallback: return result as-is, let agents-sdk handle serialization
-									return result
+									result = await server.callTool(mcpTool.name, args)
 								} catch (err) {
 									console.error(`[MCP] Error executing tool ${mcpTool.name}:`, err)
 									throw err
 								}
+								// Results flagged with isError throw an MCPToolError, which the SDK reports to the model
+								return convertToolResult(result, { images: acceptsImages })
 							}
 						})
-					)
+					})
 				}
 			} catch (err) {
 				console.error(`[MCP] Error getting tools from server: `, err)
 			}
+
+			if (toolConfig.resourceURIs?.length) {
+				const resourceTools = this.createResourceTools(serverName, serverConfig?.toolPrefix, server, toolConfig.resourceURIs)
+				tools.push(...resourceTools.map(t => ({ tool: t, serverName })))
+			}
 		}
 
 		return tools
 	}
 
+	/**
+	 * Tools listing and reading the resources of a server the agent was given access to.
+	 * Named with the server's tool prefix, or its name, so agents using resources of several servers get distinct tools.
+	 */
+	private createResourceTools(serverName: string, toolPrefix: string | undefined, server: MCPClient, resourceURIs: string[]): Tool[] {
+		const prefix = toolPrefix || serverName.toLowerCase().replace(/[^a-z0-9_]+/g, "_").replace(/^_+|_+$/g, "") || "mcp"
+		return [
+			tool({
+				name: `${prefix}_list_resources`,
+				description: `List the resources of the ${serverName} MCP server that can be read with ${prefix}_read_resource`,
+				parameters: z.object({}),
+				async execute() {
+					const resources = await server.listResources()
+					return resources
+						.filter(r => resourceURIs.includes(r.uri))
+						.map(r => ({ uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType }))
+				}
+			}),
+			tool({
+				name: `${prefix}_read_resource`,
+				description: `Read a resource of the ${serverName} MCP server by its URI`,
+				parameters: z.object({
+					uri: z.string().describe(`URI of the resource, as listed by ${prefix}_list_resources`)
+				}),
+				async execute({ uri }) {
+					if (!resourceURIs.includes(uri)) {
+						return `Resource ${uri} is not available to this agent`
+					}
+					try {
+						const contents = await server.readResource(uri)
+						return contents
+							.map(c => "text" in c ? c.text : `[Binary resource ${c.uri}${c.mimeType ? ` (${c.mimeType})` : ""}]`)
+							.join("\n\n")
+					} catch (err) {
+						console.error(`[MCP] Error reading resource ${uri}:`, err)
+						throw err
+					}
+				}
+			})
+		]
+	}
+
+	/**
+	 * Text of the MCP prompts selected for an agent, added to its instructions when the agents are initialized.
+	 */
+	async getInstructionsForAgent(agentSettings: AgentSettings): Promise<string[]> {
+		const snippets: string[] = []
+
+		for (const toolConfig of agentSettings.mcpTools) {
+			if (!toolConfig.enabled || !toolConfig.prompts?.length) continue
+
+			const mcpServer = this.servers.get(toolConfig.serverID)
+			if (!mcpServer || mcpServer.status !== "connected") {
+				console.warn(`[MCP] Server ${toolConfig.serverID} not connected, skipping prompts of agent '${agentSettings.name}'`)
+				continue
+			}
+
+			for (const prompt of toolConfig.prompts) {
+				try {
+					const messages = await mcpServer.server.getPrompt(prompt.name, prompt.arguments)
+					const text = messages
+						.map(m => {
+							if (m.content.type === "text") return m.content.text
+							if (m.content.type === "resource" && "text" in m.content.resource) return m.content.resource.text
+							return ""
+						})
+						.filter(Boolean)
+						.join("\n\n")
+					if (text) snippets.push(text)
+				} catch (err) {
+					console.error(`[MCP] Error getting prompt ${prompt.name} from ${toolConfig.serverID}:`, err)
+				}
+			}
+		}
+
+		return snippets
+	}
+
 	async testConnection(serverID: string): Promise<{ success: boolean, error?: string }> {
 		const config = this.plugin.settings.mcpServers.find(s => s.id === serverID)
 		if (!config) {
@@ -206,39 +515,55 @@ export class MCPManager {
 		}
 
 		try {
+			// Don't keep the test connection alive, the server's entry is left to the live connection and its reconnects
 			const server = await this.createServer(config)
 			await server.connect()
 			await server.close()
-
-			// Update status to connected
-			this.servers.set(serverID, {
-				id: serverID,
-				status: "connected",
-				server: null as any, // Don't keep the test connection alive
-				lastChecked: Date.now()
-			})
-
 			return { success: true }
 		} catch (err) {
 			const errorMessage = err instanceof Error ? err.message : String(err)
 
-			// Update status to error
-			this.servers.set(serverID, {
-				id: serverID,
-				status: "error",
-				server: null as any,
-				lastChecked: Date.now(),
-				error: errorMessage
-			})
+			// A failed test doesn't replace a live connection, which is checked by its own pings
+			const mcpServer = this.servers.get(serverID)
+			if (mcpServer?.status !== "connected") {
+				this.updateServer({
+					...mcpServer,
+					id: serverID,
+					status: "error",
+					lastChecked: Date.now(),
+					error: errorMessage
+				})
+			}
 
 			return { success: false, error: errorMessage }
 		}
 	}
 
-	async closeAll(): Promise<void> {
+	/**
+	 * Close all server connections. Streamable HTTP sessions are ended on the server unless they are
+	 * kept to be resumed by the next connection (and the server config allows resuming).
+	 */
+	async closeAll(options?: { keepSessions?: boolean }): Promise<void> {
+		this.generation++
+		this.reconnectTimers.forEach(timer => window.clearTimeout(timer))
+		this.reconnectTimers.clear()
+		this.toolsChangedTimers.forEach(timer => window.clearTimeout(timer))
+		this.toolsChangedTimers.clear()
+		if (this.healthCheckID !== undefined) {
+			window.clearInterval(this.healthCheckID)
+			this.healthCheckID = undefined
+		}
+
 		for (const [id, mcpServer] of this.servers) {
 			if (mcpServer.status === "connected" && mcpServer.server) {
 				try {
+					const config = this.plugin.settings.mcpServers.find(s => s.id === id)
+					const keepSession = options?.keepSessions && config?.type === "http" && config.resumeSession !== false
+					if (mcpServer.server instanceof SimpleMCPServerStreamableHTTP && !keepSession) {
+						this.sessions.delete(id)
+						await mcpServer.server.terminate()
+						continue
+					}
 					await mcpServer.server.close()
 				} catch (err) {
 					console.error(`[MCP] Error closing server ${id}: `, err)
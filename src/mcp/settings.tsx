@@ -7,6 +7,8 @@ import { Trash } from "lucide-react";
 import { SelectGroup, SelectItem } from "~/components/ui/select";
 import { cn } from "~/lib/utils";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "~/components/ui/accordion";
+import { useEffect, useState } from "react";
+import { MCP_SERVERS_CHANGED_EVENT } from "~/mcp";
 
 
 export default function MCPServerSettings({ plugin }: { plugin: ObsidianAgentsServer }) {
@@ -71,11 +73,23 @@ export default function MCPServerSettings({ plugin }: { plugin: ObsidianAgentsSe
 											{(subField) => (<subField.TextField label="Name" />)}
 										</form.AppField>
 
+										<form.AppField name={`mcpServers[${i}].toolPrefix`}>
+											{(subField) => (
+												<subField.TextField
+													label="Tool Name Prefix (tools are registered as <prefix>_<tool>)"
+													inputProps={{ placeholder: "github", pattern: "[A-Za-z0-9_\\-]*" }}
+												/>
+											)}
+										</form.AppField>
+
+										<MCPServerStatus plugin={plugin} serverID={server.id} />
+
 										<form.AppField name={`mcpServers[${i}].type`}>
 											{(subField) => (<subField.SelectField defaultValue="stdio" label="Type">
 												<SelectGroup>
 													<SelectItem value="stdio">Stdio (Local Command)</SelectItem>
 													<SelectItem value="sse">SSE (HTTP Server)</SelectItem>
+													<SelectItem value="http">Streamable HTTP (Remote Server)</SelectItem>
 												</SelectGroup>
 											</subField.SelectField>)}
 										</form.AppField>
@@ -146,6 +160,54 @@ export default function MCPServerSettings({ plugin }: { plugin: ObsidianAgentsSe
 											)}
 										/>
 
+										<form.Subscribe
+											selector={(state) => state.values.mcpServers[i].type}
+											children={(type) => (
+												<div className={cn(type !== "http" && "hidden")}>
+													<form.AppField name={`mcpServers[${i}].url`}>
+														{(subField) => <subField.TextField label="URL" inputProps={{ placeholder: "https://example.com/mcp", required: type === "http" }} />}
+													</form.AppField>
+													<form.Field name={`mcpServers[${i}].headers`} mode="array">
+														{(subField) => (
+															<div className="relative">
+																<h2>Headers</h2>
+																<div className="grid place-items-center">
+																	<Button
+																		type="button"
+																		onClick={() => {
+																			subField.pushValue({ name: "", value: "" })
+																		}}
+																	>
+																		Add Header
+																	</Button>
+																</div>
+																{subField.state.value?.map((_, j) => (
+																	<div key={j} className="grid grid-cols-2 gap-4 relative">
+																		<form.AppField name={`mcpServers[${i}].headers[${j}].name`}>
+																			{(headerField) => (<headerField.TextField label="NAME" inputProps={{ placeholder: "Authorization" }} />)}
+																		</form.AppField>
+																		<form.AppField name={`mcpServers[${i}].headers[${j}].value`}>
+																			{(headerField) => (<headerField.TextField label="VALUE" inputProps={{ type: "password" }} />)}
+																		</form.AppField>
+																		<Trash
+																			size={16}
+																			className="absolute cursor-pointer -right-8 top-1/2 hover:stroke-destructive transition-colors duration-300"
+																			onClick={() => {
+																				subField.removeValue(j)
+																			}}
+																		/>
+																	</div>
+																))}
+															</div>
+														)}
+													</form.Field>
+													<form.AppField name={`mcpServers[${i}].resumeSession`}>
+														{(subField) => <subField.CheckboxField label="Resume Session on Reconnect" orientation="horizontal" />}
+													</form.AppField>
+												</div>
+											)}
+										/>
+
 										<form.AppField name={`mcpServers[${i}].cacheToolsList`}>
 											{(subField) => <subField.CheckboxField label="Cache Tools List" orientation="horizontal" />}
 										</form.AppField>
@@ -165,7 +227,8 @@ export default function MCPServerSettings({ plugin }: { plugin: ObsidianAgentsSe
 											command: "npx",
 											args: "",
 											env: [],
-											cacheToolsList: true
+											cacheToolsList: true,
+											toolPrefix: ""
 										})
 									}}
 								>
@@ -179,3 +242,28 @@ export default function MCPServerSettings({ plugin }: { plugin: ObsidianAgentsSe
 		</form.AppForm>
 	)
 }
+
+function MCPServerStatus({ plugin, serverID }: { plugin: ObsidianAgentsServer, serverID: string }) {
+	const [, setChangeCount] = useState(0)
+	useEffect(() => {
+		const ref = plugin.events.on(MCP_SERVERS_CHANGED_EVENT, () => setChangeCount(count => count + 1))
+		return () => plugin.events.offref(ref)
+	}, [plugin])
+
+	const status = plugin.mcpManager.getServerStatus(serverID)
+	if (!status) {
+		return <p className="text-xs text-muted-foreground">Not connected yet, save to connect</p>
+	}
+	return (
+		<div className="text-xs text-muted-foreground">
+			<p>
+				<span className={cn(status.status === "connected" && "text-green-600", status.status === "error" && "text-destructive")}>{status.status}</span>
+				{status.sessionId && ` · session ${status.sessionId}`} · checked {new Date(status.lastChecked).toLocaleTimeString()}
+			</p>
+			{status.error && <p className="text-destructive break-all">{status.error}</p>}
+			{status.nextRetryAt && (
+				<p>Reconnecting at {new Date(status.nextRetryAt).toLocaleTimeString()}{status.reconnectAttempts ? ` (${status.reconnectAttempts} failed attempts)` : ""}</p>
+			)}
+		</div>
+	)
+}
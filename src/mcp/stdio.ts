@@ -1,8 +1,8 @@
-import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { existsSync, readdirSync } from "fs"
 import { homedir } from "os"
 import { join } from "path"
+import { BaseMCPClient } from "./client"
 
 /**
  * Attempts to resolve a command to an absolute path by checking common installation locations.
@@ -85,19 +85,8 @@ function findNodeExecutable(command: "node" | "npx"): string | null {
 	return null
 }
 
-export class SimpleMCPServerStdio {
-	private client?: Client
+export class SimpleMCPServerStdio extends BaseMCPClient {
 	private transport?: StdioClientTransport
-	private config: any
-	public tools: any[] = []
-
-	constructor(config: any) {
-		this.config = config
-	}
-
-	get name() {
-		return this.config.name
-	}
 
 	async connect() {
 		// Resolve command to absolute path if needed
@@ -126,16 +115,13 @@ export class SimpleMCPServerStdio {
 			env: mergedEnv
 		})
 
-		this.client = new Client(
-			{ name: 'obsidian-agents-server', version: '1.0.0' },
-			{ capabilities: {} }
-		)
+		const client = this.createClient()
 
 		try {
-			await this.client.connect(this.transport)
+			await client.connect(this.transport)
 			this.tools = await this.listTools()
 			console.log(`[MCP] Successfully connected to ${this.config.name}`)
-			console.log(`[MCP] list ${this.config.name} tools: `, await this.client.listTools())
+			console.log(`[MCP] list ${this.config.name} tools: `, this.tools)
 		} catch (err) {
 			console.error(`[MCP] Connection error for ${this.config.name}:`, err)
 			throw err
@@ -143,21 +129,7 @@ export class SimpleMCPServerStdio {
 	}
 
 	async close() {
-		await this.client?.close()
-		this.client = undefined
+		await super.close()
 		this.transport = undefined
 	}
-
-	async listTools() {
-		if (!this.client) throw new Error('Client not connected')
-		const response = await this.client.listTools()
-		this.tools = response.tools
-		return response.tools
-	}
-
-	async callTool(name: string, args: Record<string, unknown> | null) {
-		if (!this.client) throw new Error('Client not connected')
-		const result = await this.client.callTool({ name, arguments: args || {} })
-		return result.content
-	}
 }
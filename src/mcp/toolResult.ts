@@ -0,0 +1,71 @@
+import { type ToolOutputImage, type ToolOutputText } from "@openai/agents"
+import { type CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+
+/**
+ * Thrown for results the server flagged with `isError`. The agent SDK reports the message to the
+ * model as the tool's output, so the model can correct its arguments or try something else.
+ */
+export class MCPToolError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "MCPToolError"
+	}
+}
+
+/**
+ * Convert the result of an MCP tool call into an agent SDK tool output. All text blocks are joined,
+ * embedded and linked resources are described as text, and images are passed on as image outputs
+ * when the agent's model accepts images (otherwise they're noted in the text).
+ */
+export function convertToolResult(result: CallToolResult, options: { images: boolean }): string | (ToolOutputText | ToolOutputImage)[] {
+	const texts: string[] = []
+	const images: ToolOutputImage[] = []
+
+	const addImage = (data: string, mimeType: string) => {
+		if (options.images) {
+			images.push({ type: "image", image: { data, mediaType: mimeType } })
+		} else {
+			texts.push(`[Image (${mimeType}) omitted, the agent's model doesn't accept images]`)
+		}
+	}
+
+	for (const block of result.content ?? []) {
+		switch (block.type) {
+			case "text":
+				texts.push(block.text)
+				break;
+			case "image":
+				addImage(block.data, block.mimeType)
+				break;
+			case "audio":
+				texts.push(`[Audio (${block.mimeType}) omitted, audio isn't supported]`)
+				break;
+			case "resource":
+				if ("text" in block.resource) {
+					texts.push(`Resource ${block.resource.uri}:\n${block.resource.text}`)
+				} else if (block.resource.mimeType?.startsWith("image/")) {
+					addImage(block.resource.blob, block.resource.mimeType)
+				} else {
+					texts.push(`[Binary resource ${block.resource.uri}${block.resource.mimeType ? ` (${block.resource.mimeType})` : ""}]`)
+				}
+				break;
+			case "resource_link":
+				texts.push(`Resource link: ${block.name} (${block.uri})${block.description ? ` - ${block.description}` : ""}`)
+				break;
+			default:
+				break;
+		}
+	}
+
+	// Servers should repeat structured content as text, include it for the ones that don't
+	if (result.structuredContent && !result.content?.some(block => block.type === "text")) {
+		texts.push(JSON.stringify(result.structuredContent))
+	}
+
+	const text = texts.join("\n\n")
+	if (result.isError) {
+		throw new MCPToolError(text || "The tool reported an error without details")
+	}
+	if (images.length === 0) return text
+	return text ? [{ type: "text", text }, ...images] : images
+}
@@ -0,0 +1,93 @@
+import { type Model, type ModelRequest, type ModelResponse, type ModelSettings, type StreamEvent } from "@openai/agents";
+
+export interface ModelChainEntry {
+  // `<provider label>/<model id>`, reported as the system fingerprint of completions
+  label: string
+  model: Model
+  // Provider specific settings, since providerOptions are keyed by the provider that serves the model
+  providerData?: ModelSettings["providerData"]
+}
+
+/**
+ * Treat connection errors, timeouts and 5xx responses as the provider being unavailable.
+ * Other errors (bad requests, auth, invalid output) would fail the same way on any model.
+ */
+function isProviderUnavailableError(err: any): boolean {
+  const status = err?.statusCode ?? err?.status
+  if (typeof status === "number") return status >= 500 || status === 408
+  if (err?.name === "AI_APICallError") return err.isRetryable === true
+  return /ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EHOSTUNREACH|net::ERR_|timed? ?out|fetch failed/i.test(err?.message ?? "")
+}
+
+/**
+ * A model that runs an agent's primary model and falls back to the next model in the chain
+ * when the provider is unavailable. Fork the chain per run so `usedModel` belongs to a single request.
+ */
+export class ModelChain implements Model {
+  entries: ModelChainEntry[]
+  usedModel?: string
+
+  constructor(entries: ModelChainEntry[]) {
+    this.entries = entries
+  }
+
+  fork(): ModelChain {
+    return new ModelChain(this.entries)
+  }
+
+  // The entry's provider settings go on top of the request's own, providerOptions are merged per provider
+  private requestFor(entry: ModelChainEntry, request: ModelRequest): ModelRequest {
+    const requestData = request.modelSettings.providerData ?? {}
+    const entryData = entry.providerData ?? {}
+    const providerOptions: Record<string, Record<string, unknown>> = { ...requestData.providerOptions }
+    for (const [name, options] of Object.entries<Record<string, unknown>>(entryData.providerOptions ?? {})) {
+      providerOptions[name] = { ...providerOptions[name], ...options }
+    }
+    const providerData = {
+      ...requestData,
+      ...entryData,
+      ...(Object.keys(providerOptions).length > 0 && { providerOptions })
+    }
+    return { ...request, modelSettings: { ...request.modelSettings, providerData } }
+  }
+
+  private shouldFallback(err: unknown, request: ModelRequest, index: number): boolean {
+    if (index === this.entries.length - 1 || request.signal?.aborted) return false
+    if (!isProviderUnavailableError(err)) return false
+    console.warn(`[ModelChain] ${this.entries[index].label} unavailable, falling back to ${this.entries[index + 1].label}:`, err)
+    return true
+  }
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    for (const [i, entry] of this.entries.entries()) {
+      try {
+        const response = await entry.model.getResponse(this.requestFor(entry, request))
+        this.usedModel = entry.label
+        return response
+      } catch (err) {
+        if (!this.shouldFallback(err, request, i)) throw err
+      }
+    }
+    throw new Error("Model chain has no models")
+  }
+
+  async *getStreamedResponse(request: ModelRequest): AsyncIterable<StreamEvent> {
+    for (const [i, entry] of this.entries.entries()) {
+      let started = false
+      try {
+        for await (const event of entry.model.getStreamedResponse(this.requestFor(entry, request))) {
+          if (!started) {
+            started = true
+            this.usedModel = entry.label
+          }
+          yield event
+        }
+        return
+      } catch (err) {
+        // Once events reached the client the turn can't be replayed on another model
+        if (started || !this.shouldFallback(err, request, i)) throw err
+      }
+    }
+    throw new Error("Model chain has no models")
+  }
+}
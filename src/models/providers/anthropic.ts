@@ -0,0 +1,86 @@
+import { ModelProvider } from ".";
+import { MODEL_PROVIDERS, ModelProviderSettings } from "~/models/providers/constants";
+import ObsidianAgentsServer from "~/index";
+import { requestUrl } from "obsidian";
+import { createAnthropic, type AnthropicProvider } from "@ai-sdk/anthropic";
+import { AgentModelSettings } from "~/agents/types";
+
+const ANTHROPIC_VERSION = "2023-06-01"
+// Standard context window of the Claude models, the models endpoint doesn't report it
+const CONTEXT_LIMIT = 200000
+
+interface AnthropicModelsResponse {
+  data: {
+    id: string
+    display_name: string
+    type: "model"
+    created_at: string
+  }[]
+  has_more: boolean
+}
+
+export class Anthropic extends ModelProvider {
+  apiKeyRequired = MODEL_PROVIDERS["anthropic"].apiKeyRequired;
+  models = [];
+  instance?: AnthropicProvider;
+
+  constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
+    super(plugin, providerSettings)
+  }
+
+  get providerOptionsName() {
+    return "anthropic"
+  }
+
+  getProviderOptions(settings: AgentModelSettings) {
+    return {
+      // The Messages API has no minimal effort level
+      ...(settings.reasoningEffort && { effort: settings.reasoningEffort === "minimal" ? "low" : settings.reasoningEffort }),
+      ...(settings.parallelToolCalls !== undefined && { disableParallelToolUse: !settings.parallelToolCalls }),
+    }
+  }
+
+  getEmbeddingModel() {
+    // Anthropic has no embedding models
+    return undefined
+  }
+
+  async getContextLimit() {
+    return CONTEXT_LIMIT
+  }
+
+  async getModels() {
+    // Thrown so the provider health shows why there are no models
+    if (!this.apiKey) {
+      throw new Error('No API key configured')
+    }
+
+    const res = await requestUrl({
+      url: `${this.baseURL}/models?limit=1000`,
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      }
+    })
+
+    if (res.status === 200) {
+      return (res.json as AnthropicModelsResponse).data.map(m => m.id)
+    }
+    return []
+  }
+
+  createInstance() {
+    if (!this.apiKey) {
+      console.warn('[Anthropic] No API key configured for creating instance')
+      return
+    }
+
+    // Talks to the Messages API, so any server implementing it (e.g. a local proxy) works through the base URL
+    this.instance = createAnthropic({
+      apiKey: this.apiKey,
+      baseURL: this.baseURL,
+      headers: this.headers,
+      fetch: this.transportFetch
+    })
+  }
+}
@@ -16,14 +16,58 @@ export const MODEL_PROVIDERS = {
 		label: "Ollama",
 		baseURL: "http://localhost:11434",
 		apiKeyRequired: false
+	},
+	anthropic: {
+		id: "anthropic",
+		label: "Anthropic",
+		baseURL: "https://api.anthropic.com/v1",
+		apiKeyRequired: true
+	},
+	custom: {
+		id: "custom",
+		label: "OpenAI Compatible",
+		baseURL: "http://localhost:8000/v1",
+		apiKeyRequired: false
+	},
+	replay: {
+		id: "replay",
+		label: "Replay",
+		// Vault folder holding the fixture files, one per model
+		baseURL: "agent-fixtures",
+		apiKeyRequired: false
 	}
 } as const
 export type ModelProviderID = typeof MODEL_PROVIDERS[keyof typeof MODEL_PROVIDERS]["id"]
 export type ModelProviderLabel = typeof MODEL_PROVIDERS[keyof typeof MODEL_PROVIDERS]["label"]
 
+export interface ModelProviderHeader {
+	name: string,
+	value: string
+}
+
+// `node` streams responses through Node's http module (desktop), `requestUrl` buffers them through Obsidian
+export type ModelProviderTransport = "node" | "requestUrl"
+
 export interface ModelProviderSettings {
-	id: ModelProviderID,
+	// Unique id of this provider entry, referenced by agents
+	id: string,
+	type: ModelProviderID,
 	label: string,
 	baseURL: string,
 	apiKey?: string
+	headers?: ModelProviderHeader[]
+	transport?: ModelProviderTransport
+	// Vault folder model calls are recorded to as replay fixtures, recording is off when empty
+	recordFixturesFolder?: string
+	// LM Studio only, minutes after which models the plugin used are unloaded when idle
+	idleUnloadMinutes?: number
+}
+
+// Embedding model served by the /v1/embeddings endpoint under its name
+export interface EmbeddingModelSettings {
+	id: string,
+	name: string,
+	// ID of the model provider entry serving the model
+	modelProvider: string,
+	model: string
 }
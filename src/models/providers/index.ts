@@ -1,40 +1,155 @@
-import { ModelProviderID, ModelProviderSettings } from "~/models/providers/constants";
+import { ModelProviderID, ModelProviderSettings, ModelProviderTransport } from "~/models/providers/constants";
 import ObsidianAgentsServer from "~/index";
 import { createOpenAICompatible, type OpenAICompatibleProvider } from "@ai-sdk/openai-compatible";
 import { type OpenAIProvider } from "@ai-sdk/openai";
-import { requestUrl } from "obsidian";
+import { type OllamaProvider } from "ollama-ai-provider-v2";
+import { type AnthropicProvider } from "@ai-sdk/anthropic";
+import { Platform, requestUrl } from "obsidian";
+import { nodeFetch } from "~/models/providers/nodeFetch";
+import { type Model, type ModelSettings } from "@openai/agents";
+import { aisdk } from "@openai/agents-extensions";
+import { RecordingModel } from "~/models/replay";
+import { AgentModelSettings, AgentSettings } from "~/agents/types";
 
-export type ModelProviderInstance = OpenAICompatibleProvider | OpenAIProvider
+export type ModelProviderInstance = OpenAICompatibleProvider | OpenAIProvider | OllamaProvider | AnthropicProvider
+export type EmbeddingModel = ReturnType<OpenAICompatibleProvider["textEmbeddingModel"]>
+
+export class UnsupportedEmbeddingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnsupportedEmbeddingsError"
+  }
+}
+
+/**
+ * Fetch implementation for the AI SDK providers backed by Obsidian's requestUrl (which bypasses CORS).
+ * requestUrl cannot be cancelled, so an aborted signal rejects the call and the late response is discarded.
+ */
+export async function requestUrlFetch(url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const urlString = typeof url === 'string' ? url : url instanceof URL ? url.toString() : url.url;
+  const signal = init?.signal
+
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError')
+  }
+
+  const request = requestUrl({
+    url: urlString,
+    method: init?.method || 'GET',
+    headers: init?.headers as Record<string, string>,
+    body: init?.body as string,
+  });
+
+  let onAbort: (() => void) | undefined
+  let response: Awaited<typeof request>
+  try {
+    response = signal
+      ? await Promise.race([
+        request,
+        new Promise<never>((_, reject) => {
+          onAbort = () => reject(new DOMException('The operation was aborted.', 'AbortError'))
+          signal.addEventListener('abort', onAbort, { once: true })
+        })
+      ])
+      : await request
+  } finally {
+    // Long runs share the request's signal across model calls, so don't leave a listener per call behind
+    if (onAbort) signal?.removeEventListener('abort', onAbort)
+  }
+
+  return new Response(response.text, {
+    status: response.status,
+    headers: response.headers,
+  });
+}
+
+// Triggered on the plugin's events after a provider refreshed its models
+export const MODEL_PROVIDERS_REFRESHED_EVENT = "model-providers-refreshed"
+
+// Outcome of the last model refresh of a provider, reachable is undefined until the first one finishes
+export interface ModelProviderHealth {
+  reachable?: boolean
+  latencyMs?: number
+  lastError?: string
+  lastRefresh?: number
+}
+
+/**
+ * Model settings the aisdk adapter maps to AI SDK parameters. It ignores reasoning and parallel tool calls,
+ * those go through the provider's `providerOptions` (see `ModelProvider.getProviderData`).
+ */
+export function convertAgentModelSettings(settings: AgentModelSettings = {}): ModelSettings {
+  return {
+    temperature: settings.temperature,
+    topP: settings.topP,
+    maxTokens: settings.maxTokens,
+    toolChoice: settings.toolChoice,
+  }
+}
 
 export abstract class ModelProvider {
-  id: ModelProviderID;
+  // Id of the provider entry in settings, agents reference providers by it
+  id: string;
+  type: ModelProviderID;
+  label: string;
   baseURL: string;
   models: string[];
   plugin: ObsidianAgentsServer
   instance?: ModelProviderInstance
   apiKeyRequired: boolean = false
   apiKey?: string
+  headers: Record<string, string> = {}
+  transport: ModelProviderTransport
+  recordFixturesFolder?: string
+  // Context window sizes in tokens by model id, cached once looked up
+  contextLimits: Record<string, number> = {}
+  health: ModelProviderHealth = {}
+  private refreshing?: Promise<string[]>
+
+  // Name the AI SDK provider reads its `providerOptions` entry by, ids of new entries are random so it's based on the kind
+  get providerOptionsName(): string {
+    return this.type
+  }
 
   constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
     const provider = plugin.settings.modelProviders.find(p => p.id === providerSettings.id)
     if (provider) {
       this.id = provider.id
+      this.type = provider.type
+      this.label = provider.label
       this.baseURL = provider.baseURL
+      this.transport = provider.transport ?? (Platform.isDesktopApp ? "node" : "requestUrl")
+      this.recordFixturesFolder = provider.recordFixturesFolder || undefined
       this.plugin = plugin
       this.models = [] // Initialize to empty array
       if (providerSettings.apiKey) {
         this.apiKey = providerSettings.apiKey
       }
+      for (const header of providerSettings.headers ?? []) {
+        if (header.name) this.headers[header.name] = header.value
+      }
       if (this.shouldCreateInstance()) {
         this.createInstance();
       }
 
       // Fetch models with timeout - don't block initialization
-      this.fetchModelsWithTimeout();
+      this.refreshModels();
     }
   }
 
+  /**
+   * Fetch the provider's models and record the outcome in `health`.
+   * Concurrent calls share the refresh that is already running.
+   */
+  refreshModels(): Promise<string[]> {
+    this.refreshing ??= this.fetchModelsWithTimeout().finally(() => {
+      this.refreshing = undefined
+    })
+    return this.refreshing
+  }
+
   private async fetchModelsWithTimeout() {
+    const started = Date.now()
     try {
       // Race between getModels() and a timeout
       const timeoutPromise = new Promise<string[]>((_, reject) =>
@@ -47,43 +162,119 @@ export abstract class ModelProvider {
       ]);
 
       this.models = models;
-      console.log(`[${this.id}] Successfully fetched ${models.length} models`);
+      this.health = { reachable: true, latencyMs: Date.now() - started, lastRefresh: Date.now() }
+      console.log(`[${this.label}] Successfully fetched ${models.length} models`);
     } catch (e) {
-      console.warn(`[${this.id}] Failed to fetch models (offline or timeout):`, e);
+      console.warn(`[${this.label}] Failed to fetch models (offline or timeout):`, e);
       this.models = []; // Fallback to empty array
+      this.health = { reachable: false, lastError: e instanceof Error ? e.message : String(e), lastRefresh: Date.now() }
     }
+    this.plugin.events.trigger(MODEL_PROVIDERS_REFRESHED_EVENT)
+    return this.models
   }
 
   shouldCreateInstance(): boolean {
     const agent = this.plugin.settings.agents.some(agent => {
-      return agent.enabled && agent.modelProvider == this.id
+      return agent.enabled && (agent.modelProvider == this.id || agent.fallbackModels?.some(f => f.modelProvider == this.id))
     })
-    if (!agent) return false;
-    return true
+    // Embedding models are served without an agent
+    const embeddingModel = this.plugin.settings.embeddingModels.some(m => m.modelProvider == this.id)
+    return agent || embeddingModel
   }
 
   createInstance() {
     this.instance = createOpenAICompatible({
-      name: this.id,
+      name: this.providerOptionsName,
       baseURL: this.baseURL,
+      apiKey: this.apiKey,
+      headers: this.headers,
       includeUsage: true,
-      fetch: async (url: string | URL | Request, init?: RequestInit) => {
-        const urlString = typeof url === 'string' ? url : url instanceof URL ? url.toString() : url.url;
-
-        const response = await requestUrl({
-          url: urlString,
-          method: init?.method || 'GET',
-          headers: init?.headers as Record<string, string>,
-          body: init?.body as string,
-        });
-
-        return new Response(response.text, {
-          status: response.status,
-          headers: response.headers,
-        });
-      }
+      fetch: this.transportFetch
     })
   }
 
+  /**
+   * Model agents run on, undefined when the provider has no instance (e.g. a missing API key).
+   * Providers managing their models' lifecycle read the agent's load settings.
+   */
+  getModel(model: string, _agentSettings?: AgentSettings): Model | undefined {
+    if (!this.instance) return undefined
+    const agentModel = aisdk(this.instance(model))
+    return this.recordFixturesFolder ? new RecordingModel(this.plugin, this.recordFixturesFolder, model, agentModel) : agentModel
+  }
+
+  /**
+   * Embedding model for the /v1/embeddings endpoint, undefined when the provider has no embedding models.
+   */
+  getEmbeddingModel(model: string): EmbeddingModel | undefined {
+    const instance = this.instance as OpenAICompatibleProvider | undefined
+    return instance?.textEmbeddingModel(model)
+  }
+
+  // `providerOptions` requesting a number of dimensions from embedding models that support it
+  getEmbeddingProviderOptions(dimensions: number): Record<string, Record<string, number>> {
+    return { [this.providerOptionsName]: { dimensions } }
+  }
+
+  /**
+   * Embed texts with one of the provider's embedding models, split into as many calls as the model requires.
+   */
+  async embed(model: string, values: string[], options: { dimensions?: number, signal?: AbortSignal } = {}): Promise<{ embeddings: number[][], tokens: number }> {
+    const embeddingModel = this.getEmbeddingModel(model)
+    if (!embeddingModel) {
+      throw new UnsupportedEmbeddingsError(`Model provider '${this.label}' doesn't serve embedding models`)
+    }
+    const batchSize = await embeddingModel.maxEmbeddingsPerCall ?? values.length
+    const embeddings: number[][] = []
+    let tokens = 0
+    for (let i = 0; i < values.length; i += batchSize) {
+      const result = await embeddingModel.doEmbed({
+        values: values.slice(i, i + batchSize),
+        abortSignal: options.signal,
+        ...(options.dimensions && { providerOptions: this.getEmbeddingProviderOptions(options.dimensions) })
+      })
+      embeddings.push(...result.embeddings)
+      tokens += result.usage?.tokens ?? 0
+    }
+    return { embeddings, tokens }
+  }
+
+  /**
+   * Options for the provider's entry in the AI SDK `providerOptions`, covering settings
+   * without a common AI SDK parameter. OpenAI compatible servers get them as request body fields.
+   */
+  getProviderOptions(settings: AgentModelSettings): Record<string, unknown> {
+    return {
+      ...(settings.reasoningEffort && { reasoningEffort: settings.reasoningEffort }),
+      ...(settings.parallelToolCalls !== undefined && { parallel_tool_calls: settings.parallelToolCalls }),
+    }
+  }
+
+  /**
+   * Provider specific part of the model settings, spread into the AI SDK call by the aisdk model adapter.
+   */
+  getProviderData(settings: AgentModelSettings = {}): ModelSettings["providerData"] {
+    const stopSequences = settings.stopSequences?.split("\n").filter(s => s !== "") ?? []
+    return {
+      ...(stopSequences.length > 0 && { stopSequences }),
+      providerOptions: { [this.providerOptionsName]: this.getProviderOptions(settings) }
+    }
+  }
+
+  // Stops background work before the provider is replaced by a new instance
+  dispose() { }
+
+  // Fetch used for model calls, Node's http streams responses while requestUrl buffers them
+  get transportFetch() {
+    return this.transport === "node" ? nodeFetch : requestUrlFetch
+  }
+
+  /**
+   * Context window of a model in tokens, undefined when the provider doesn't report it.
+   */
+  async getContextLimit(model: string): Promise<number | undefined> {
+    return this.contextLimits[model]
+  }
+
   abstract getModels(): Promise<string[]>
 }
@@ -4,25 +4,228 @@ import ObsidianAgentsServer from "~/index";
 import { requestUrl } from "obsidian";
 import { OpenAICompatibleProvider } from "@ai-sdk/openai-compatible";
 import { GetModelsResponse } from "~/agents/chatCompletionApiTypes";
+import { type Model, type ModelRequest, type ModelResponse, type StreamEvent } from "@openai/agents";
+import { AgentSettings } from "~/agents/types";
+
+// Model entry of LM Studio's v1 REST API, `GET /api/v1/models`
+interface LMStudioModelResponse {
+  key: string
+  type: "llm" | "embedding"
+  max_context_length: number
+  // One entry per loaded copy of the model, with the context length it was loaded with
+  loaded_instances: {
+    id: string
+    config: { context_length?: number }
+  }[]
+}
+
+// How often loaded models are checked for idleness
+const IDLE_CHECK_INTERVAL = 60 * 1000
+
+/**
+ * Model of an LM Studio agent that loads it with the agent's context length before a call
+ * and tells the provider when it was last used, so idle models can be unloaded.
+ */
+class LMStudioManagedModel implements Model {
+  private provider: LMStudio
+  private model: string
+  private wrapped: Model
+  private loadSettings?: AgentSettings["modelLoad"]
+
+  constructor(provider: LMStudio, model: string, wrapped: Model, loadSettings?: AgentSettings["modelLoad"]) {
+    this.provider = provider
+    this.model = model
+    this.wrapped = wrapped
+    this.loadSettings = loadSettings
+  }
+
+  private async prepare() {
+    if (this.loadSettings?.autoLoad) {
+      await this.provider.ensureLoaded(this.model, this.loadSettings.contextLength)
+    }
+  }
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    await this.prepare()
+    const done = this.provider.markInUse(this.model)
+    try {
+      return await this.wrapped.getResponse(request)
+    } catch (err) {
+      this.provider.forgetLoaded(this.model)
+      throw err
+    } finally {
+      done()
+    }
+  }
+
+  async *getStreamedResponse(request: ModelRequest): AsyncIterable<StreamEvent> {
+    await this.prepare()
+    const done = this.provider.markInUse(this.model)
+    try {
+      yield* this.wrapped.getStreamedResponse(request)
+    } catch (err) {
+      this.provider.forgetLoaded(this.model)
+      throw err
+    } finally {
+      done()
+    }
+  }
+}
 
 export class LMStudio extends ModelProvider {
-  id = MODEL_PROVIDERS.lmstudio.id;
-  baseURL = MODEL_PROVIDERS["lmstudio"].baseURL;
   apiKeyRequired = MODEL_PROVIDERS["lmstudio"].apiKeyRequired;
   models = [];
   instance?: OpenAICompatibleProvider;
+  // Models currently loaded in LM Studio, updated with every model refresh and idle check.
+  // Trusted in between so model turns don't check the model's state before every call
+  loadedModels: string[] = []
+  private loading = new Map<string, Promise<void>>()
+  private activeCalls = new Map<string, number>()
+  private lastUsed = new Map<string, number>()
+  private idleCheckID?: number
 
   constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
     // super calls both initializeProvider & 
     super(plugin, providerSettings)
+    if (providerSettings.idleUnloadMinutes) {
+      const idleTimeout = providerSettings.idleUnloadMinutes * 60 * 1000
+      this.idleCheckID = plugin.registerInterval(window.setInterval(() => this.unloadIdleModels(idleTimeout), IDLE_CHECK_INTERVAL))
+    }
+  }
+
+  // LM Studio's own REST API is served next to the OpenAI compatible one
+  private get restURL() {
+    return `${this.baseURL.replace(/\/v1\/?$/, "")}/api/v1`
+  }
+
+  private async fetchModelDetails(): Promise<LMStudioModelResponse[]> {
+    const res = await requestUrl(`${this.restURL}/models`)
+    return (res.json as { models: LMStudioModelResponse[] }).models
+  }
+
+  dispose() {
+    if (this.idleCheckID !== undefined) window.clearInterval(this.idleCheckID)
+  }
+
+  getModel(model: string, agentSettings?: AgentSettings) {
+    const agentModel = super.getModel(model)
+    return agentModel && new LMStudioManagedModel(this, model, agentModel, agentSettings?.modelLoad)
+  }
+
+  async getContextLimit(model: string) {
+    if (this.contextLimits[model]) return this.contextLimits[model]
+    const details = (await this.fetchModelDetails()).find(m => m.key === model)
+    const limit = details?.loaded_instances[0]?.config.context_length ?? details?.max_context_length
+    if (limit) this.contextLimits[model] = limit
+    return limit
   }
 
   async getModels() {
     const res = await requestUrl(`${this.baseURL}/models`)
     if (res.status === 200) {
       const models = (res.json.data as GetModelsResponse).map(m => m.id)
+      await this.refreshLoadedModels()
       return models
     }
     return []
   }
+
+  async refreshLoadedModels() {
+    try {
+      this.loadedModels = (await this.fetchModelDetails()).filter(m => m.loaded_instances.length > 0).map(m => m.key)
+    } catch (e) {
+      // Older LM Studio versions don't serve the REST API, the model list still works without it
+      console.warn(`[${this.label}] Failed to fetch loaded models:`, e)
+      this.loadedModels = []
+    }
+  }
+
+  /**
+   * Load a model with the given context length, instead of letting LM Studio load it
+   * just in time with its default settings on the first request.
+   */
+  async loadModel(model: string, contextLength?: number) {
+    console.log(`[${this.label}] Loading ${model}${contextLength ? ` with a context length of ${contextLength}` : ""}`)
+    try {
+      await requestUrl({
+        url: `${this.restURL}/models/load`,
+        method: "POST",
+        contentType: "application/json",
+        body: JSON.stringify({ model, ...(contextLength && { context_length: contextLength }) })
+      })
+    } catch (err) {
+      // The model may have been loaded or unloaded outside the plugin, don't trust the cached state
+      await this.refreshLoadedModels()
+      throw err
+    }
+    delete this.contextLimits[model]
+    this.lastUsed.set(model, Date.now())
+    await this.refreshModels()
+    if (!this.loadedModels.includes(model)) this.loadedModels.push(model)
+  }
+
+  async unloadModel(model: string) {
+    console.log(`[${this.label}] Unloading ${model}`)
+    await requestUrl({
+      url: `${this.restURL}/models/unload`,
+      method: "POST",
+      contentType: "application/json",
+      body: JSON.stringify({ instance_id: model })
+    })
+    delete this.contextLimits[model]
+    this.lastUsed.delete(model)
+    await this.refreshModels()
+  }
+
+  /**
+   * Load a model unless it is known to be loaded, concurrent runs of the same model share one load.
+   */
+  async ensureLoaded(model: string, contextLength?: number) {
+    if (this.loadedModels.includes(model)) return
+    // Loading a loaded model would start another instance of it, so check before loading on a cache miss
+    if (!this.loading.has(model)) {
+      await this.refreshLoadedModels()
+      if (this.loadedModels.includes(model)) return
+    }
+    if (!this.loading.has(model)) {
+      this.loading.set(model, this.loadModel(model, contextLength).finally(() => this.loading.delete(model)))
+    }
+    await this.loading.get(model)
+  }
+
+  // A failed call may mean the model was unloaded outside the plugin, the next call loads it again if needed
+  forgetLoaded(model: string) {
+    this.loadedModels = this.loadedModels.filter(m => m !== model)
+  }
+
+  // Returns the callback ending the call, idle time only counts once no call is running
+  markInUse(model: string) {
+    this.activeCalls.set(model, (this.activeCalls.get(model) ?? 0) + 1)
+    this.lastUsed.set(model, Date.now())
+    return () => {
+      this.activeCalls.set(model, (this.activeCalls.get(model) ?? 1) - 1)
+      this.lastUsed.set(model, Date.now())
+    }
+  }
+
+  /**
+   * Unload the models the plugin used that have been idle longer than the timeout.
+   * Models loaded in LM Studio but never used through the plugin are left alone.
+   */
+  private async unloadIdleModels(idleTimeout: number) {
+    if (this.lastUsed.size === 0) return
+    await this.refreshLoadedModels()
+    for (const [model, lastUsed] of this.lastUsed) {
+      if (this.activeCalls.get(model) || Date.now() - lastUsed < idleTimeout) continue
+      if (!this.loadedModels.includes(model)) {
+        this.lastUsed.delete(model)
+        continue
+      }
+      try {
+        await this.unloadModel(model)
+      } catch (e) {
+        console.warn(`[${this.label}] Failed to unload idle model ${model}:`, e)
+      }
+    }
+  }
 }
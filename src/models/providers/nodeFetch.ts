@@ -0,0 +1,85 @@
+import http from "http";
+import https from "https";
+
+function abortError() {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  const record: Record<string, string> = {}
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value
+  })
+  return record
+}
+
+/**
+ * Fetch implementation for the AI SDK providers backed by Node's http/https modules (desktop only).
+ * Unlike requestUrl the response body is streamed as it arrives, so SSE tokens reach the client incrementally.
+ */
+export function nodeFetch(url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const target = new URL(typeof url === 'string' ? url : url instanceof URL ? url.toString() : url.url);
+  const client = target.protocol === 'https:' ? https : http
+  const signal = init?.signal
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    // One listener for the whole request, removed once it's done so long runs sharing a signal don't pile them up
+    let abortBody: (() => void) | undefined
+    const onAbort = () => abortBody ? abortBody() : req.destroy(abortError())
+    const done = () => signal?.removeEventListener('abort', onAbort)
+
+    const req = client.request(target, {
+      method: init?.method || 'GET',
+      headers: toHeaderRecord(init?.headers),
+    }, (res) => {
+      const headers = new Headers()
+      for (const [key, value] of Object.entries(res.headers)) {
+        if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value)
+      }
+      const status = res.statusCode ?? 500
+      const body = status === 204 || status === 304 ? null : new ReadableStream<Uint8Array>({
+        start(controller) {
+          let finished = false
+          const finish = (err?: unknown) => {
+            if (finished) return
+            finished = true
+            done()
+            if (err) controller.error(err)
+            else controller.close()
+          }
+          res.on('data', (chunk: Buffer) => {
+            if (!finished) controller.enqueue(new Uint8Array(chunk))
+          })
+          res.on('end', () => finish())
+          res.on('error', (err) => finish(err))
+          abortBody = () => {
+            finish(abortError())
+            res.destroy()
+          }
+        },
+        cancel() {
+          done()
+          res.destroy()
+        }
+      })
+      if (!body) done()
+      resolve(new Response(body, { status, statusText: res.statusMessage, headers }))
+    })
+
+    req.on('error', (err) => {
+      done()
+      reject(err)
+    })
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    if (typeof init?.body === 'string' || init?.body instanceof Uint8Array) {
+      req.write(init.body)
+    }
+    req.end()
+  })
+}
@@ -0,0 +1,73 @@
+import { ModelProvider } from ".";
+import { MODEL_PROVIDERS, ModelProviderSettings } from "~/models/providers/constants";
+import ObsidianAgentsServer from "~/index";
+import { requestUrl } from "obsidian";
+import { createOllama, type OllamaProvider } from "ollama-ai-provider-v2";
+import { AgentModelSettings } from "~/agents/types";
+
+interface OllamaTagsResponse {
+  models: {
+    name: string
+    model: string
+    modified_at: string
+    size: number
+  }[]
+}
+
+interface OllamaShowResponse {
+  // Keyed by architecture, e.g. `llama.context_length`
+  model_info?: Record<string, unknown>
+}
+
+export class Ollama extends ModelProvider {
+  apiKeyRequired = MODEL_PROVIDERS["ollama"].apiKeyRequired;
+  models = [];
+  instance?: OllamaProvider;
+
+  constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
+    super(plugin, providerSettings)
+  }
+
+  getProviderOptions(settings: AgentModelSettings) {
+    // Ollama only toggles thinking on or off
+    return settings.reasoningEffort ? { think: true } : {}
+  }
+
+  get providerOptionsName() {
+    return "ollama"
+  }
+
+  async getContextLimit(model: string) {
+    if (this.contextLimits[model]) return this.contextLimits[model]
+    const res = await requestUrl({
+      url: `${this.baseURL}/api/show`,
+      method: "POST",
+      contentType: "application/json",
+      body: JSON.stringify({ model })
+    })
+    const info = (res.json as OllamaShowResponse).model_info ?? {}
+    const key = Object.keys(info).find(k => k.endsWith(".context_length"))
+    if (key && typeof info[key] === "number") {
+      this.contextLimits[model] = info[key] as number
+    }
+    return this.contextLimits[model]
+  }
+
+  async getModels() {
+    const res = await requestUrl(`${this.baseURL}/api/tags`)
+    if (res.status === 200) {
+      const models = (res.json as OllamaTagsResponse).models.map(m => m.name)
+      return models
+    }
+    return []
+  }
+
+  createInstance() {
+    // Uses Ollama's native /api/chat endpoint, which supports tool calling
+    this.instance = createOllama({
+      baseURL: `${this.baseURL}/api`,
+      headers: this.headers,
+      fetch: this.transportFetch
+    })
+  }
+}
@@ -4,10 +4,19 @@ import ObsidianAgentsServer from "~/index";
 import { requestUrl } from "obsidian";
 import { createOpenAI, OpenAIProvider as AISDKOpenAIProvider } from "@ai-sdk/openai";
 import { GetModelsResponse } from "~/agents/chatCompletionApiTypes";
+import { AgentModelSettings } from "~/agents/types";
+
+// Context windows of the GPT model families, the models endpoint doesn't report them. Longest prefix wins.
+const CONTEXT_LIMITS: Record<string, number> = {
+  "gpt-5": 400000,
+  "gpt-4.1": 1047576,
+  "gpt-4o": 128000,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+}
 
 export class OpenAI extends ModelProvider {
-  id = MODEL_PROVIDERS.openai.id;
-  baseURL = MODEL_PROVIDERS["openai"].baseURL;
   models = [];
   apiKeyRequired = MODEL_PROVIDERS["openai"].apiKeyRequired;
   instance?: AISDKOpenAIProvider;
@@ -16,28 +25,42 @@ export class OpenAI extends ModelProvider {
     super(plugin, providerSettings)
   }
 
+  getProviderOptions(settings: AgentModelSettings) {
+    return {
+      ...(settings.reasoningEffort && { reasoningEffort: settings.reasoningEffort }),
+      ...(settings.parallelToolCalls !== undefined && { parallelToolCalls: settings.parallelToolCalls }),
+    }
+  }
+
+  get providerOptionsName() {
+    return "openai"
+  }
+
+  async getContextLimit(model: string) {
+    const prefix = Object.keys(CONTEXT_LIMITS)
+      .filter(p => model.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0]
+    return prefix ? CONTEXT_LIMITS[prefix] : undefined
+  }
+
   async getModels() {
+    // Thrown so the provider health shows why there are no models
     if (!this.apiKey) {
-      console.warn('[OpenAI] No API key configured')
-      return []
+      throw new Error('No API key configured')
     }
 
-    try {
-      const res = await requestUrl({
-        url: `${this.baseURL}/models`,
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`
-        }
-      })
-
-      if (res.status === 200) {
-        const models = (res.json.data as GetModelsResponse)
-          .filter(m => m.id.startsWith('gpt-')) // Only include GPT models
-          .map(m => m.id)
-        return models
+    const res = await requestUrl({
+      url: `${this.baseURL}/models`,
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`
       }
-    } catch (e) {
-      console.error('[OpenAI] Error fetching models:', e)
+    })
+
+    if (res.status === 200) {
+      const models = (res.json.data as GetModelsResponse)
+        .filter(m => m.id.startsWith('gpt-')) // Only include GPT models
+        .map(m => m.id)
+      return models
     }
     return []
   }
@@ -50,21 +73,9 @@ export class OpenAI extends ModelProvider {
 
     this.instance = createOpenAI({
       apiKey: this.apiKey,
-      fetch: async (url: string | URL | Request, init?: RequestInit) => {
-        const urlString = typeof url === 'string' ? url : url instanceof URL ? url.toString() : url.url;
-
-        const response = await requestUrl({
-          url: urlString,
-          method: init?.method || 'GET',
-          headers: init?.headers as Record<string, string>,
-          body: init?.body as string,
-        });
-
-        return new Response(response.text, {
-          status: response.status,
-          headers: response.headers,
-        });
-      }
+      baseURL: this.baseURL,
+      headers: this.headers,
+      fetch: this.transportFetch
     })
   }
 }
@@ -0,0 +1,35 @@
+import { ModelProvider } from ".";
+import { MODEL_PROVIDERS, ModelProviderSettings } from "~/models/providers/constants";
+import ObsidianAgentsServer from "~/index";
+import { requestUrl } from "obsidian";
+import { OpenAICompatibleProvider } from "@ai-sdk/openai-compatible";
+import { GetModelsResponse } from "~/agents/chatCompletionApiTypes";
+
+/**
+ * User-defined provider entry for any server exposing the OpenAI API,
+ * e.g. vLLM, llama.cpp server or an OpenRouter-style gateway.
+ */
+export class OpenAICompatible extends ModelProvider {
+  apiKeyRequired = MODEL_PROVIDERS["custom"].apiKeyRequired;
+  models = [];
+  instance?: OpenAICompatibleProvider;
+
+  constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
+    super(plugin, providerSettings)
+  }
+
+  async getModels() {
+    const res = await requestUrl({
+      url: `${this.baseURL}/models`,
+      headers: {
+        ...this.headers,
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      }
+    })
+    if (res.status === 200) {
+      const models = (res.json.data as GetModelsResponse).map(m => m.id)
+      return models
+    }
+    return []
+  }
+}
@@ -0,0 +1,36 @@
+import { ModelProvider } from ".";
+import { MODEL_PROVIDERS, ModelProviderSettings } from "~/models/providers/constants";
+import ObsidianAgentsServer from "~/index";
+import { normalizePath } from "obsidian";
+import { ReplayModel } from "~/models/replay";
+
+/**
+ * Serves scripted or recorded model responses from fixture files in a vault folder (the entry's base URL),
+ * so agents run deterministically without a live model server. Each `<model>.json` file is a model.
+ */
+export class Replay extends ModelProvider {
+  apiKeyRequired = MODEL_PROVIDERS["replay"].apiKeyRequired;
+  models = [];
+
+  constructor(plugin: ObsidianAgentsServer, providerSettings: ModelProviderSettings) {
+    super(plugin, providerSettings)
+  }
+
+  createInstance() {
+    // Fixtures are read by the replay model directly, there is no AI SDK provider
+  }
+
+  getModel(model: string) {
+    return new ReplayModel(this.plugin, this.baseURL, model)
+  }
+
+  async getModels() {
+    const adapter = this.plugin.app.vault.adapter
+    const folder = normalizePath(this.baseURL)
+    if (!await adapter.exists(folder)) return []
+    const { files } = await adapter.list(folder)
+    return files
+      .filter(f => f.endsWith(".json"))
+      .map(f => f.slice(folder.length + 1, -".json".length))
+  }
+}
@@ -0,0 +1,178 @@
+import { Usage, type AgentInputItem, type AgentOutputItem, type Model, type ModelRequest, type ModelResponse, type StreamEvent } from "@openai/agents";
+import { normalizePath } from "obsidian";
+import ObsidianAgentsServer from "~/index";
+
+export interface ModelFixtureTurn {
+  // Input of the model call. Items only need the fields they list to match, recorded turns list all of them
+  input?: Partial<AgentInputItem>[]
+  // Pattern for the last input item only, convenient for scripted fixtures
+  lastInput?: Partial<AgentInputItem>
+  output: AgentOutputItem[]
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+    totalTokens: number
+  }
+}
+
+// Contents of `<fixtures folder>/<model>.json`
+export interface ModelFixture {
+  model: string
+  turns: ModelFixtureTurn[]
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FixtureNotFoundError"
+  }
+}
+
+// Model ids like `qwen/qwen3-8b` are stored as `qwen_qwen3-8b.json`
+export function fixtureFileName(model: string) {
+  return `${model.replace(/[^\w.-]/g, "_")}.json`
+}
+
+function fixturePath(folder: string, model: string) {
+  return normalizePath(`${folder}/${fixtureFileName(model)}`)
+}
+
+function requestInput(request: ModelRequest): AgentInputItem[] {
+  return typeof request.input === "string" ? [{ role: "user", content: request.input }] : request.input
+}
+
+// Every field of the pattern has to equal the value, fields the pattern leaves out are ignored
+function matches(pattern: unknown, value: unknown): boolean {
+  if (Array.isArray(pattern)) {
+    return Array.isArray(value) && pattern.length === value.length && pattern.every((p, i) => matches(p, value[i]))
+  }
+  if (pattern && typeof pattern === "object") {
+    return !!value && typeof value === "object" && Object.entries(pattern).every(([key, p]) => matches(p, (value as Record<string, unknown>)[key]))
+  }
+  return pattern === value
+}
+
+async function readFixture(plugin: ObsidianAgentsServer, path: string): Promise<ModelFixture | undefined> {
+  const adapter = plugin.app.vault.adapter
+  if (!await adapter.exists(path)) return undefined
+  return JSON.parse(await adapter.read(path)) as ModelFixture
+}
+
+/**
+ * Serves model responses from a fixture file instead of calling a provider. Each call is answered
+ * by the first turn whose `input` and `lastInput` patterns match the request, a turn without
+ * patterns matches any request. The fixture is read on every call so edits apply immediately.
+ */
+export class ReplayModel implements Model {
+  private plugin: ObsidianAgentsServer
+  private path: string
+  private model: string
+
+  constructor(plugin: ObsidianAgentsServer, folder: string, model: string) {
+    this.plugin = plugin
+    this.path = fixturePath(folder, model)
+    this.model = model
+  }
+
+  private async findTurn(request: ModelRequest): Promise<ModelFixtureTurn> {
+    const fixture = await readFixture(this.plugin, this.path)
+    if (!fixture) {
+      throw new FixtureNotFoundError(`No fixture file for model '${this.model}' at ${this.path}`)
+    }
+    const input = requestInput(request)
+    const turn = fixture.turns.find(t =>
+      (t.input === undefined || matches(t.input, input)) &&
+      (t.lastInput === undefined || matches(t.lastInput, input[input.length - 1]))
+    )
+    if (!turn) {
+      throw new FixtureNotFoundError(`No turn in ${this.path} matches the request, last input item: ${JSON.stringify(input[input.length - 1])}`)
+    }
+    return turn
+  }
+
+  private usage(turn: ModelFixtureTurn) {
+    return turn.usage ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  }
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    const turn = await this.findTurn(request)
+    return {
+      usage: new Usage({ requests: 1, ...this.usage(turn) }),
+      output: turn.output,
+      responseId: `replay-${Date.now()}`
+    }
+  }
+
+  async *getStreamedResponse(request: ModelRequest): AsyncIterable<StreamEvent> {
+    const turn = await this.findTurn(request)
+    yield { type: "response_started" }
+    for (const item of turn.output) {
+      if (item.type !== "message" || !("content" in item) || !Array.isArray(item.content)) continue
+      for (const part of item.content) {
+        if (part.type === "output_text") yield { type: "output_text_delta", delta: part.text }
+      }
+    }
+    yield {
+      type: "response_done",
+      response: {
+        id: `replay-${Date.now()}`,
+        usage: { requests: 1, ...this.usage(turn) },
+        output: turn.output as Extract<StreamEvent, { type: "response_done" }>["response"]["output"]
+      }
+    }
+  }
+}
+
+/**
+ * Wraps a provider's model and appends every call it answers to the model's fixture file,
+ * producing fixtures the replay provider can serve later.
+ */
+export class RecordingModel implements Model {
+  private plugin: ObsidianAgentsServer
+  private folder: string
+  private model: string
+  private wrapped: Model
+  // Calls finish concurrently, writes are chained so none of them are lost
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(plugin: ObsidianAgentsServer, folder: string, model: string, wrapped: Model) {
+    this.plugin = plugin
+    this.folder = folder
+    this.model = model
+    this.wrapped = wrapped
+  }
+
+  private record(request: ModelRequest, output: AgentOutputItem[], usage: ModelFixtureTurn["usage"]) {
+    const turn: ModelFixtureTurn = { input: requestInput(request), output, usage }
+    this.writing = this.writing.then(async () => {
+      const adapter = this.plugin.app.vault.adapter
+      const path = fixturePath(this.folder, this.model)
+      if (!await adapter.exists(this.folder)) await adapter.mkdir(this.folder)
+      const fixture = await readFixture(this.plugin, path) ?? { model: this.model, turns: [] }
+      fixture.turns.push(turn)
+      await adapter.write(path, JSON.stringify(fixture, null, 2))
+    }).catch(err => {
+      console.error(`[Recording] Failed to record a turn of ${this.model}:`, err)
+    })
+  }
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.wrapped.getResponse(request)
+    this.record(request, response.output, {
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      totalTokens: response.usage.totalTokens
+    })
+    return response
+  }
+
+  async *getStreamedResponse(request: ModelRequest): AsyncIterable<StreamEvent> {
+    for await (const event of this.wrapped.getStreamedResponse(request)) {
+      if (event.type === "response_done") {
+        const { inputTokens, outputTokens, totalTokens } = event.response.usage
+        this.record(request, event.response.output, { inputTokens, outputTokens, totalTokens })
+      }
+      yield event
+    }
+  }
+}
@@ -1,21 +1,32 @@
-import { useStore } from "@tanstack/react-form";
 import ObsidianAgentsServer from "~/index";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { MODEL_PROVIDERS, ModelProviderID } from "~/models/providers/constants";
-import { Trash } from "lucide-react";
+import { Loader2Icon, Plus, RefreshCw, Trash } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { useAppForm } from "~/components/form";
-import { Activity } from "react";
+import { Activity, useState } from "react";
+import { nanoid } from "nanoid";
+import { Notice, Platform } from "obsidian";
+import { Badge } from "~/components/ui/badge";
+import { useModelProviders } from "~/models/useModelProviders";
+import { LMStudio } from "~/models/providers/lmstudio";
 
 export default function ModelSettings({ plugin }: { plugin: ObsidianAgentsServer }) {
+	const modelProviders = useModelProviders(plugin)
 	const form = useAppForm({
 		defaultValues: {
-			modelProviders: plugin.settings.modelProviders
+			modelProviders: plugin.settings.modelProviders,
+			modelRefreshInterval: plugin.settings.modelRefreshInterval,
+			embeddingModels: plugin.settings.embeddingModels
 		},
 		onSubmit: async ({ value }) => {
 			console.log('value: ', value)
 			plugin.settings.modelProviders = value.modelProviders
+			plugin.settings.modelRefreshInterval = value.modelRefreshInterval ?? 0
+			plugin.settings.embeddingModels = value.embeddingModels
+			plugin.startModelRefresh()
 			// Reinitialize model providers when settings change
+			plugin.modelProviders.forEach(p => p.dispose())
 			plugin.modelProviders = plugin.initializeModelProviders()
 			await plugin.saveSettings()
 		},
@@ -24,18 +35,20 @@ export default function ModelSettings({ plugin }: { plugin: ObsidianAgentsServer
 		}
 	})
 
-	const modelProviders = useStore(form.store, (state) => state.values.modelProviders)
-
 	return (
 		<form.AppForm>
 			<div className="relative">
 				<Button type="submit" onClick={form.handleSubmit} className="right-0 absolute -top-11">Save</Button>
+				<ProviderHealthPanel plugin={plugin} />
+				<form.AppField name="modelRefreshInterval">
+					{(subField) => <subField.NumberField label="Background Refresh Interval (minutes, 0 to disable)" inputProps={{ min: 0, step: 1 }} />}
+				</form.AppField>
 				<form.Field name="modelProviders" mode="array">
 					{(field) => (
 						<div className="py-6">
 							<Select value={""} onValueChange={(value) => {
 								const provider = MODEL_PROVIDERS[value as ModelProviderID]
-								field.pushValue({ id: value as ModelProviderID, label: provider.label, baseURL: provider.baseURL })
+								field.pushValue({ id: nanoid(), type: provider.id, label: provider.label, baseURL: provider.baseURL, headers: [] })
 								form.handleSubmit()
 								value = ""
 							}}>
@@ -43,19 +56,20 @@ export default function ModelSettings({ plugin }: { plugin: ObsidianAgentsServer
 									<SelectValue>Add Model Provider</SelectValue>
 								</SelectTrigger>
 								<SelectContent>
-									{Object.values(MODEL_PROVIDERS)
-										.filter(p => !modelProviders.find(p2 => p2.id === p.id))
-										.map((provider, i) => (
-											<SelectItem key={i} value={provider.id}>{provider.label}</SelectItem>
-										))
-									}
+									{Object.values(MODEL_PROVIDERS).map((provider, i) => (
+										<SelectItem key={i} value={provider.id}>{provider.label}</SelectItem>
+									))}
 								</SelectContent>
 							</Select>
 							{field.state.value.map((provider, i) => {
-								const providerInstance = Object.values(MODEL_PROVIDERS).find(p => p.id === provider.id)
+								const providerInstance = Object.values(MODEL_PROVIDERS).find(p => p.id === provider.type)
+								const isCustom = provider.type === MODEL_PROVIDERS.custom.id
+								const isReplay = provider.type === MODEL_PROVIDERS.replay.id
+								const isLMStudio = provider.type === MODEL_PROVIDERS.lmstudio.id
 								return (
-									<div key={`modelProvider-${i}`} className="relative py-2">
+									<div key={`modelProvider-${provider.id}`} className="relative py-2">
 										<h2>{provider.label}</h2>
+										<p className="text-muted-foreground text-xs">{providerInstance?.label}</p>
 										<Trash
 											size={16}
 											onClick={() => {
@@ -64,21 +78,179 @@ export default function ModelSettings({ plugin }: { plugin: ObsidianAgentsServer
 											}}
 											className="absolute cursor-pointer right-4 top-2 hover:stroke-red-600 transition-colors duration-300"
 										/>
+										<form.AppField name={`modelProviders[${i}].label`}>
+											{(subField) => <subField.TextField label="Name" />}
+										</form.AppField>
 										<form.AppField name={`modelProviders[${i}].baseURL`}>
-											{(subField) => <subField.TextField label="Base URL" />}
+											{(subField) => <subField.TextField label={isReplay ? "Fixtures Folder" : "Base URL"} />}
 										</form.AppField>
-										<Activity mode={providerInstance?.apiKeyRequired ? "visible" : "hidden"}>
+										<Activity mode={isReplay ? "hidden" : "visible"}>
+											<form.AppField name={`modelProviders[${i}].transport`}>
+												{(subField) => (
+													<subField.SelectField label="Transport" placeholder={Platform.isDesktopApp ? "Streaming (Node HTTP)" : "Buffered (Obsidian requestUrl)"}>
+														<SelectGroup>
+															<SelectItem value="node" disabled={!Platform.isDesktopApp}>Streaming (Node HTTP)</SelectItem>
+															<SelectItem value="requestUrl">Buffered (Obsidian requestUrl)</SelectItem>
+														</SelectGroup>
+													</subField.SelectField>
+												)}
+											</form.AppField>
+											<form.AppField name={`modelProviders[${i}].recordFixturesFolder`}>
+												{(subField) => <subField.TextField label="Record Fixtures to Folder (leave empty to disable)" inputProps={{ placeholder: MODEL_PROVIDERS.replay.baseURL }} />}
+											</form.AppField>
+										</Activity>
+										<Activity mode={isLMStudio ? "visible" : "hidden"}>
+											<form.AppField name={`modelProviders[${i}].idleUnloadMinutes`}>
+												{(subField) => <subField.NumberField label="Unload Idle Models After (minutes)" inputProps={{ min: 1, step: 1, placeholder: "Never" }} />}
+											</form.AppField>
+										</Activity>
+										<Activity mode={providerInstance?.apiKeyRequired || isCustom ? "visible" : "hidden"}>
 											<form.AppField name={`modelProviders[${i}].apiKey`}>
-												{(subField) => <subField.TextField label="API Key" inputProps={{ type: "password" }} />}
+												{(subField) => <subField.TextField label={isCustom ? "API Key (optional)" : "API Key"} inputProps={{ type: "password" }} />}
 											</form.AppField>
 										</Activity>
+										<Activity mode={isCustom ? "visible" : "hidden"}>
+											<form.Field name={`modelProviders[${i}].headers`} mode="array">
+												{(headersField) => (
+													<div className="flex flex-col gap-2 pt-2">
+														<h3 className="text-sm">Extra Headers</h3>
+														{(headersField.state.value ?? []).map((_, j) => (
+															<div key={`modelProvider-${provider.id}-header-${j}`} className="flex gap-2 items-end">
+																<form.AppField name={`modelProviders[${i}].headers[${j}].name`}>
+																	{(subField) => <subField.TextField label="Name" className="flex-1" />}
+																</form.AppField>
+																<form.AppField name={`modelProviders[${i}].headers[${j}].value`}>
+																	{(subField) => <subField.TextField label="Value" className="flex-1" inputProps={{ type: "password" }} />}
+																</form.AppField>
+																<Trash
+																	size={16}
+																	onClick={() => headersField.removeValue(j)}
+																	className="cursor-pointer mb-2 hover:stroke-red-600 transition-colors duration-300"
+																/>
+															</div>
+														))}
+														<Button type="button" variant="outline" size="sm" className="self-start" onClick={() => headersField.pushValue({ name: "", value: "" })}>
+															<Plus size={14} /> Add Header
+														</Button>
+													</div>
+												)}
+											</form.Field>
+										</Activity>
 									</div>
 								)
 							})}
 						</div>
 					)}
 				</form.Field>
+				<form.Field name="embeddingModels" mode="array">
+					{(field) => (
+						<div className="flex flex-col gap-2 py-6">
+							<div className="flex gap-4 items-center">
+								<h2>Embedding Models</h2>
+								<Button type="button" onClick={() => field.pushValue({ id: nanoid(), name: "", modelProvider: "", model: "" })}>
+									<Plus size={16} />
+								</Button>
+							</div>
+							<p className="text-muted-foreground text-xs">Served by POST /v1/embeddings, requests select a model by its name</p>
+							{field.state.value.map((embeddingModel, i) => (
+								<div key={`embeddingModel-${embeddingModel.id}`} className="relative grid grid-cols-3 gap-4 pr-10">
+									<form.AppField name={`embeddingModels[${i}].name`}>
+										{(subField) => <subField.TextField label="Name" inputProps={{ placeholder: "text-embedding-local" }} />}
+									</form.AppField>
+									<form.AppField name={`embeddingModels[${i}].modelProvider`}>
+										{(subField) => (
+											<subField.SelectField label="Provider" placeholder="Select Provider" onValueChange={() => {
+												form.setFieldValue(`embeddingModels[${i}].model`, "")
+											}}>
+												<SelectGroup>
+													{form.state.values.modelProviders.map(provider => (
+														<SelectItem key={`embeddingModel-${embeddingModel.id}-provider-${provider.id}`} value={provider.id}>{provider.label}</SelectItem>
+													))}
+												</SelectGroup>
+											</subField.SelectField>
+										)}
+									</form.AppField>
+									<form.AppField name={`embeddingModels[${i}].model`}>
+										{(subField) => (
+											<subField.SelectField label="Model" placeholder="Select Model">
+												<SelectGroup>
+													{modelProviders.find(p => p.id === embeddingModel.modelProvider)?.models.map(model => (
+														<SelectItem key={`embeddingModel-${embeddingModel.id}-model-${model}`} value={model}>{model}</SelectItem>
+													))}
+												</SelectGroup>
+											</subField.SelectField>
+										)}
+									</form.AppField>
+									<Trash
+										size={16}
+										onClick={() => field.removeValue(i)}
+										className="absolute cursor-pointer right-4 top-1/2 hover:stroke-red-600 transition-colors duration-300"
+									/>
+								</div>
+							))}
+						</div>
+					)}
+				</form.Field>
 			</div>
 		</form.AppForm>
 	)
 }
+
+function ProviderHealthPanel({ plugin }: { plugin: ObsidianAgentsServer }) {
+	const modelProviders = useModelProviders(plugin)
+	const [refreshing, setRefreshing] = useState(false)
+
+	return (
+		<div className="flex flex-col gap-2 pt-6">
+			<div className="flex gap-4 items-center">
+				<h2>Provider Health</h2>
+				<Button type="button" variant="outline" size="sm" disabled={refreshing} onClick={async () => {
+					setRefreshing(true)
+					await plugin.refreshModelProviders()
+					setRefreshing(false)
+				}}>
+					{refreshing ? <Loader2Icon size={14} className="animate-spin" /> : <RefreshCw size={14} />} Refresh
+				</Button>
+			</div>
+			{modelProviders.length === 0 && <p className="text-xs text-muted-foreground">No model providers configured</p>}
+			{modelProviders.map(provider => {
+				const { reachable, latencyMs, lastError, lastRefresh } = provider.health
+				return (
+					<div key={`provider-health-${provider.id}`} className="grid grid-cols-[1fr_auto] gap-x-4 text-xs">
+						<div className="flex gap-2 items-center">
+							<span className="font-semibold">{provider.label}</span>
+							<Badge variant={reachable === undefined ? "outline" : reachable ? "secondary" : "destructive"}>
+								{reachable === undefined ? "Checking" : reachable ? "Reachable" : "Unreachable"}
+							</Badge>
+						</div>
+						<p className="text-muted-foreground text-right">
+							{provider.models.length} models{latencyMs !== undefined && ` · ${latencyMs} ms`}{lastRefresh && ` · refreshed ${new Date(lastRefresh).toLocaleTimeString()}`}
+						</p>
+						{lastError && <p className="col-span-2 text-destructive break-all">{lastError}</p>}
+						{provider instanceof LMStudio && provider.loadedModels.length > 0 && (
+							<div className="col-span-2 flex flex-wrap gap-2 items-center pt-1">
+								<span className="text-muted-foreground">Loaded:</span>
+								{provider.loadedModels.map(model => (
+									<Badge key={`provider-${provider.id}-loaded-${model}`} variant="outline" className="gap-1">
+										{model}
+										<Trash
+											size={12}
+											onClick={async () => {
+												try {
+													await provider.unloadModel(model)
+												} catch (e) {
+													new Notice(`Failed to unload ${model}: ${e instanceof Error ? e.message : e}`)
+												}
+											}}
+											className="cursor-pointer hover:stroke-red-600 transition-colors duration-300"
+										/>
+									</Badge>
+								))}
+							</div>
+						)}
+					</div>
+				)
+			})}
+		</div>
+	)
+}
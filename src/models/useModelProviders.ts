@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import ObsidianAgentsServer from "~/index";
+import { MODEL_PROVIDERS_REFRESHED_EVENT } from "~/models/providers";
+
+/**
+ * The plugin's model providers, re-rendering the component whenever one of them refreshes its models.
+ */
+export function useModelProviders(plugin: ObsidianAgentsServer) {
+  const [, setRefreshCount] = useState(0)
+
+  useEffect(() => {
+    const ref = plugin.events.on(MODEL_PROVIDERS_REFRESHED_EVENT, () => setRefreshCount(count => count + 1))
+    return () => plugin.events.offref(ref)
+  }, [plugin])
+
+  return plugin.modelProviders
+}
@@ -2,9 +2,11 @@ import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import ObsidianAgentsServer from "~/index";
-import { Clipboard } from "lucide-react";
+import { Clipboard, Trash } from "lucide-react";
 import { Notice } from "obsidian";
 import { useAppForm } from "~/components/form";
+import { nanoid } from "nanoid";
+import { MultiSelectGroup, MultiSelectItem } from "~/components/ui/multi-select";
 
 export default function GeneralSettings({ plugin }: { plugin: ObsidianAgentsServer }) {
 	const form = useAppForm({
@@ -12,7 +14,8 @@ export default function GeneralSettings({ plugin }: { plugin: ObsidianAgentsServ
 			deviceID: plugin.settings.deviceID,
 			controlDeviceID: plugin.settings.controlDeviceID,
 			serverPort: plugin.settings.serverPort,
-			agentDocsFolder: plugin.settings.agentDocsFolder || "Agent Docs"
+			agentDocsFolder: plugin.settings.agentDocsFolder || "Agent Docs",
+			apiKeys: plugin.settings.apiKeys
 		},
 		onSubmit: async ({ value }) => {
 			const portChanged = value.serverPort !== plugin.settings.serverPort
@@ -21,6 +24,7 @@ export default function GeneralSettings({ plugin }: { plugin: ObsidianAgentsServ
 			plugin.settings.controlDeviceID = value.controlDeviceID
 			plugin.settings.serverPort = value.serverPort
 			plugin.settings.agentDocsFolder = value.agentDocsFolder
+			plugin.settings.apiKeys = value.apiKeys
 			await plugin.saveSettings()
 
 			// Restart server if port changed (await to prevent race condition)
@@ -85,6 +89,71 @@ export default function GeneralSettings({ plugin }: { plugin: ObsidianAgentsServ
 						/>
 					}
 				/>
+				<form.Field name="apiKeys" mode="array">
+					{(field) => (
+						<div className="flex flex-col gap-4 pt-6">
+							<h2>API Keys</h2>
+							<p className="text-sm text-muted-foreground">When at least one key exists, requests must send one as a Bearer token and can only use the agents allowed for it.</p>
+							{field.state.value.map((apiKey, i) => (
+								<div key={apiKey.id} className="relative flex flex-col gap-2">
+									<Trash
+										size={16}
+										onClick={() => {
+											field.removeValue(i)
+											form.handleSubmit()
+										}}
+										className="absolute cursor-pointer right-4 top-0 hover:stroke-red-600 transition-colors duration-300"
+									/>
+									<form.AppField name={`apiKeys[${i}].label`}>
+										{(subField) => <subField.TextField label="Label" />}
+									</form.AppField>
+									<div className="relative">
+										<Label htmlFor={`apiKeys[${i}].key`}>Key</Label>
+										<Input readOnly id={`apiKeys[${i}].key`} value={apiKey.key} />
+										<Clipboard
+											size={16}
+											className="absolute cursor-pointer hover:stroke-green-300 transition-colors duration-300 right-4 top-8"
+											onClick={() => {
+												navigator.clipboard.writeText(apiKey.key)
+												new Notice('API Key copied to clipboard!')
+											}}
+										/>
+									</div>
+									<form.AppField name={`apiKeys[${i}].agentIDs`}>
+										{(subField) => (
+											<subField.MultiSelectField label="Allowed Agents" placeholder="Select Agents">
+												<MultiSelectGroup>
+													{plugin.settings.agents.map((agent, j) => (
+														<MultiSelectItem key={j} value={agent.id}>{agent.name}</MultiSelectItem>
+													))}
+												</MultiSelectGroup>
+											</subField.MultiSelectField>
+										)}
+									</form.AppField>
+									<form.AppField name={`apiKeys[${i}].readOnly`}>
+										{(subField) => <subField.CheckboxField label="Read Only (no write vault tools)" orientation="horizontal" />}
+									</form.AppField>
+								</div>
+							))}
+							<div className="grid place-items-center">
+								<Button
+									type="button"
+									onClick={() => {
+										field.pushValue({
+											id: nanoid(),
+											label: "",
+											key: `sk-${nanoid(32)}`,
+											agentIDs: [],
+											readOnly: false
+										})
+									}}
+								>
+									Add API Key
+								</Button>
+							</div>
+						</div>
+					)}
+				</form.Field>
 			</div>
 		</form.AppForm>
 	)
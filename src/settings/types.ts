@@ -1,4 +1,4 @@
-import { ModelProviderSettings } from "~/models/providers/constants";
+import { EmbeddingModelSettings, ModelProviderSettings } from "~/models/providers/constants";
 import { AgentSettings } from "~/agents/types";
 
 interface BaseMCPServerConfig {
@@ -6,6 +6,8 @@ interface BaseMCPServerConfig {
 	name: string
 	enabled: boolean
 	cacheToolsList?: boolean
+	// Prepended to the server's tool names as `<prefix>_<tool>`, keeping them apart from tools of other servers
+	toolPrefix?: string
 	collapsed: boolean
 }
 
@@ -24,7 +26,26 @@ export interface SseMCPServerConfig extends BaseMCPServerConfig {
 	url: string
 }
 
-export type MCPServerConfig = StdioMCPServerConfig | SseMCPServerConfig
+export interface StreamableHttpMCPServerConfig extends BaseMCPServerConfig {
+	type: "http"
+	url: string
+	headers?: {
+		name: string
+		value: string
+	}[]
+	// Continue the server's session when reconnecting instead of initializing a new one
+	resumeSession?: boolean
+}
+
+export type MCPServerConfig = StdioMCPServerConfig | SseMCPServerConfig | StreamableHttpMCPServerConfig
+
+export interface ApiKeyConfig {
+	id: string
+	label: string
+	key: string
+	agentIDs: string[]
+	readOnly: boolean
+}
 
 export interface ObsidianAgentsServerSettings {
 	activeTab: string;
@@ -32,7 +53,11 @@ export interface ObsidianAgentsServerSettings {
 	serverPort: number;
 	controlDeviceID: string;
 	modelProviders: ModelProviderSettings[]
+	// Minutes between background model refreshes, 0 turns them off
+	modelRefreshInterval: number
+	embeddingModels: EmbeddingModelSettings[]
 	mcpServers: MCPServerConfig[]
+	apiKeys: ApiKeyConfig[]
 	customToolsFolder?: string
 	agentDocsFolder?: string
 	agents: AgentSettings[]
@@ -43,9 +68,12 @@ export const DEFAULT_SETTINGS: ObsidianAgentsServerSettings = {
 	deviceID: "",
 	controlDeviceID: "",
 	modelProviders: [],
+	modelRefreshInterval: 5,
+	embeddingModels: [],
 	serverPort: 2345,
 	agents: [],
 	mcpServers: [],
+	apiKeys: [],
 	agentDocsFolder: "Agent Docs"
 }
 
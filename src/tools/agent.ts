@@ -0,0 +1,21 @@
+import { type Agent, type FunctionTool, tool } from "@openai/agents"
+import { z } from "zod"
+import type ObsidianAgentsServer from "~/index"
+import { abortableTool, type AgentRunContext } from "~/tools/vault"
+
+/**
+ * Expose an agent as a tool of another agent. Unlike `Agent.asTool` the sub-agent runs with the request's
+ * abort signal from the run context, so a client disconnecting also stops its model requests and tool calls.
+ */
+export function createAgentTool(plugin: ObsidianAgentsServer, agent: Agent, { toolName, toolDescription }: { toolName: string, toolDescription: string }): FunctionTool<any, any, any> {
+	return abortableTool(tool({
+		name: toolName,
+		description: toolDescription,
+		parameters: z.object({ input: z.string() }),
+		async execute({ input }, context) {
+			const runContext = context as AgentRunContext
+			const result = await plugin.runner.run(agent, input, { context: runContext, signal: runContext.context.signal })
+			return String(result.finalOutput ?? "")
+		}
+	}))
+}
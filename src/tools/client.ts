@@ -0,0 +1,37 @@
+import { tool, type FunctionTool, type ModelSettings, type Tool } from "@openai/agents"
+import { Tool as ChatCompletionTool, ToolChoice } from "~/agents/chatCompletionApiTypes"
+
+// The SDK's JsonObjectSchemaNonStrict, which isn't exported from the package root. Client schemas are passed through as sent
+type JsonObjectSchemaNonStrict = Extract<FunctionTool["parameters"], { additionalProperties: true }>
+
+/**
+ * Convert the function tools sent by a chat completions client into agent tools.
+ * Client tools always require approval, so when the model calls one the run is interrupted
+ * before execution and the call is handed back to the client as a `tool_calls` message.
+ */
+export function createClientTools(tools: ChatCompletionTool[]): Tool[] {
+	return tools
+		.filter(t => t.type === "function")
+		.map(t => tool({
+			name: t.function.name,
+			description: t.function.description || "",
+			parameters: (t.function.parameters ?? { type: "object", properties: {}, required: [], additionalProperties: true }) as JsonObjectSchemaNonStrict,
+			strict: false,
+			needsApproval: true,
+			async execute() {
+				throw new Error(`Tool ${t.function.name} is executed by the client`)
+			}
+		}))
+}
+
+export function convertToolChoice(toolChoice: ToolChoice): ModelSettings["toolChoice"] {
+	if (typeof toolChoice === "string") return toolChoice
+	switch (toolChoice.type) {
+		case "function":
+			return toolChoice.function.name
+		case "custom":
+			return toolChoice.custom.name
+		case "allowed_tools":
+			return toolChoice.allowed_tools.mode
+	}
+}
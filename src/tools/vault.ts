@@ -1,4 +1,4 @@
-import { RunContext, type Tool, tool } from "@openai/agents"
+import { type FunctionTool, RunContext, tool } from "@openai/agents"
 import { z } from "zod"
 import ObsidianAgentsServer from ".."
 import { ModifyFileOptionsSchema, AgentTool, SupportedPlugin, SUPPORTED_PLUGINS, TOOL_TYPES } from "./types"
@@ -56,27 +56,68 @@ export const VAULT_TOOLS = {
 } as const
 export type VaultToolsID = typeof VAULT_TOOLS[keyof typeof VAULT_TOOLS]["id"]
 
-function vaultTool({ id, plugins = [], tool }: { id: VaultToolsID, plugins?: SupportedPlugin[], tool: Tool }): AgentTool {
+// Vault tools that modify the vault or plugin state, unavailable to read-only API keys
+export const WRITE_VAULT_TOOLS: VaultToolsID[] = [
+  VAULT_TOOLS.createFile.id,
+  VAULT_TOOLS.updateFile.id,
+  VAULT_TOOLS.deleteFile.id,
+  VAULT_TOOLS.createFileFromTemplate.id,
+  VAULT_TOOLS.createAgent.id,
+  VAULT_TOOLS.updateAgentsSettings.id,
+  VAULT_TOOLS.restartAgentsServer.id
+]
+
+function vaultTool({ id, plugins = [], tool }: { id: VaultToolsID, plugins?: SupportedPlugin[], tool: FunctionTool<any, any, any> }): AgentTool {
   return {
     id,
     type: { id: "vault", label: "Vault Tools" },
     plugins: plugins.map(p => p.id),
-    tool
+    tool: abortableTool(tool)
   }
 }
 
-type AgentRunContext = RunContext<{ agentSettings: AgentSettings }>
-function checkIncludedExcludedPaths({ path, context }: { path: string, context: AgentRunContext }) {
-  if (context.context.agentSettings.includedFolders.length > 0) {
-    if (!context.context.agentSettings.includedFolders.some((inf) => path.includes(inf.path))) {
-      throw new Error("Unauthorized to Access Files on this path")
-    }
+// `signal` is the request's abort signal, aborted when the client disconnects
+export type AgentRunContext = RunContext<{ agentSettings: AgentSettings, readOnly?: boolean, signal?: AbortSignal }>
+function checkAborted(context: AgentRunContext) {
+  if (context.context.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError')
   }
-  if (context.context.agentSettings.excludedFolders.length > 0) {
-    if (context.context.agentSettings.excludedFolders.some((exf) => path.includes(exf.path))) {
-      throw new Error("Unauthorized to Access Files on this path")
+}
+/**
+ * Fail the run instead of calling the tool once the client disconnected. Sub-agents don't share the request's
+ * model calls, so their tool calls can come in after the abort. Checked again afterwards so an aborted sub-agent
+ * fails the run rather than returning its error as tool output.
+ */
+export function abortableTool<T extends FunctionTool<any, any, any>>(wrapped: T): T {
+  return {
+    ...wrapped,
+    async invoke(runContext, input, details) {
+      checkAborted(runContext as AgentRunContext)
+      const output = await wrapped.invoke(runContext, input, details)
+      checkAborted(runContext as AgentRunContext)
+      return output
     }
   }
+}
+function checkWriteAccess(context: AgentRunContext) {
+  if (context.context.readOnly) {
+    throw new Error("Unauthorized to modify the vault with a read-only API key")
+  }
+  return true
+}
+export function isPathAllowed(agentSettings: AgentSettings, path: string) {
+  if (agentSettings.includedFolders.length > 0) {
+    if (!agentSettings.includedFolders.some((inf) => path.includes(inf.path))) return false
+  }
+  if (agentSettings.excludedFolders.length > 0) {
+    if (agentSettings.excludedFolders.some((exf) => path.includes(exf.path))) return false
+  }
+  return true
+}
+function checkIncludedExcludedPaths({ path, context }: { path: string, context: AgentRunContext }) {
+  if (!isPathAllowed(context.context.agentSettings, path)) {
+    throw new Error("Unauthorized to Access Files on this path")
+  }
   return true
 }
 
@@ -109,6 +150,7 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
           options: ModifyFileOptionsSchema
         }),
         async execute({ path, data, options }, context) {
+          checkWriteAccess(context as AgentRunContext)
           checkIncludedExcludedPaths({ path, context: context as AgentRunContext })
           const typedOptions = {
             mtime: options.mtime ?? undefined,
@@ -151,6 +193,7 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
           options: ModifyFileOptionsSchema
         }),
         async execute({ path, data, options }, context) {
+          checkWriteAccess(context as AgentRunContext)
           checkIncludedExcludedPaths({ path, context: context as AgentRunContext })
           const file = plugin.app.vault.getFileByPath(path)
           if (!file) throw new Error(`File not found: ${path}`)
@@ -174,6 +217,7 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
           force: z.boolean().default(false)
         }),
         async execute({ path, force }, context) {
+          checkWriteAccess(context as AgentRunContext)
           checkIncludedExcludedPaths({ path, context: context as AgentRunContext })
           const file = plugin.app.vault.getFileByPath(path)
           if (!file) throw new Error(`File not found: ${path}`)
@@ -195,6 +239,7 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
           templateFilename: z.string()
         }),
         async execute({ newFilename, targetFolderPath, templateFilename }, context) {
+          checkWriteAccess(context as AgentRunContext)
           checkIncludedExcludedPaths({ path: targetFolderPath, context: context as AgentRunContext })
           const { createFromTemplate, findTemplate } = templaterApi(plugin)
           const template = findTemplate(templateFilename)
@@ -260,7 +305,8 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
           agentID: z.string(),
           data: agentSettingsSchema
         }),
-        async execute({ agentID, data }) {
+        async execute({ agentID, data }, context) {
+          checkWriteAccess(context as AgentRunContext)
           plugin.settings.agents = plugin.settings.agents.map(agent => {
             if (agent.id !== agentID) return agent;
             const mcpTools = data.mcpTools.map(mcp => ({
@@ -284,7 +330,8 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
         parameters: z.object({
           data: agentSettingsSchema
         }),
-        async execute({ data }) {
+        async execute({ data }, context) {
+          checkWriteAccess(context as AgentRunContext)
           const mcpTools = data.mcpTools.map(mcp => ({
             ...mcp,
             toolsID: Object.values(TOOL_TYPES).filter(t => mcp.toolsID.includes(t.id)!)
@@ -304,7 +351,8 @@ export function createVaultTools(plugin: ObsidianAgentsServer) {
         name: VAULT_TOOLS.restartAgentsServer.id,
         description: "Create a new Agent in the plugin settings",
         parameters: z.object({}),
-        async execute() {
+        async execute(_args, context) {
+          checkWriteAccess(context as AgentRunContext)
           await plugin.restartServer()
         }
       })